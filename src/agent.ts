@@ -0,0 +1,362 @@
+/**
+ * Multi-step tool loop for execute mode
+ * Feeds tool results back to the LLM so it can chain calls until it is done
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { LLMRuntime } from './providers.js';
+import { generateStructured } from './structured.js';
+import { ValidatableTool, createPlanSchema, validateToolCall } from './validation.js';
+import { OperationResult, callWrappedOperation } from './resources.js';
+import { resolveToolPolicy } from './policy.js';
+import { matchesGlob } from './passthrough.js';
+import { Limiter, createLimiter } from './concurrency.js';
+import {
+  WrapperConfig,
+  ExecutionSettings,
+  ToolCallRecord,
+  ToolCallPlan,
+  AgentResult,
+  StopReason
+} from './types.js';
+
+export const DEFAULT_MAX_STEPS = 8;
+export const DEFAULT_MAX_TOKENS = 50000;
+
+/**
+ * Per-query options for the tool loop
+ */
+export interface ToolLoopOptions {
+  /** Lets tools that the policy marks as requiring confirmation run */
+  confirmed?: boolean;
+  /** Cancels the loop and any in-flight wrapped server request */
+  signal?: AbortSignal;
+  /** Called after each tool call completes */
+  onProgress?: (record: ToolCallRecord) => void;
+  /** Concurrency limit shared by all queries to the wrapped server; defaults to a limiter per step */
+  limiter?: Limiter;
+  /** Serves repeatable calls from cache, running load on a miss */
+  cacheCall?: (
+    name: string,
+    args: Record<string, unknown>,
+    load: () => Promise<OperationResult>
+  ) => Promise<OperationResult>;
+  /** Steps already run, such as an approved plan; the loop continues after them */
+  resume?: AgentResult;
+}
+
+/**
+ * Resolves the timeout for a wrapped tool call; the first matching per-tool pattern wins
+ */
+export function resolveToolTimeout(name: string, execution: ExecutionSettings | undefined): number | undefined {
+  const match = Object.entries(execution?.toolTimeouts || {})
+    .find(([pattern]) => matchesGlob(name, pattern));
+
+  return match ? match[1] : execution?.toolTimeoutMs;
+}
+
+/**
+ * Maximum characters of a single tool result replayed to the LLM
+ */
+const MAX_HISTORY_RESULT_CHARS = 8000;
+
+/**
+ * Serializes a tool call outcome for replay in a prompt
+ */
+export function formatToolCallRecord(record: ToolCallRecord): string {
+  const outcome = record.error !== undefined
+    ? `ERROR: ${record.error}`
+    : JSON.stringify(record.result);
+  const truncated = outcome.length > MAX_HISTORY_RESULT_CHARS
+    ? `${outcome.slice(0, MAX_HISTORY_RESULT_CHARS)}...[truncated]`
+    : outcome;
+
+  return `- ${record.tool}(${JSON.stringify(record.arguments)}) -> ${truncated}`;
+}
+
+/**
+ * Builds the prompt for the next step of the loop
+ */
+function buildStepPrompt(
+  query: string,
+  config: WrapperConfig,
+  tools: ValidatableTool[],
+  history: ToolCallRecord[],
+  step: number,
+  maxSteps: number,
+  confirmed: boolean
+): string {
+  const historySection = history.length > 0
+    ? history.map(formatToolCallRecord).join('\n')
+    : 'No tools have been called yet.';
+
+  // Tell the LLM up front which calls the policy will refuse
+  const restricted = tools
+    .map(tool => ({ name: tool.name, action: resolveToolPolicy(tool.name, config.policy) }))
+    .filter(tool => tool.action === 'deny' || (tool.action === 'confirm' && !confirmed));
+  const policySection = restricted.length > 0
+    ? `\nRestricted tools (calls will be refused):\n${restricted.map(tool => `- ${tool.name}: ${tool.action === 'deny' ? 'denied by policy' : 'requires confirmation'}`).join('\n')}\n`
+    : '';
+
+  return `
+${config.systemPrompt}
+
+Available tools:
+${JSON.stringify(tools, null, 2)}
+${policySection}
+User query: ${query}
+
+Tool calls made so far:
+${historySection}
+
+This is step ${step} of at most ${maxSteps}.
+Decide what to do next. You may use the results of earlier calls as arguments for new calls,
+and retry a failed call with corrected arguments. Calls listed together in one step run concurrently;
+give a call an "id" and list the ids of calls it must wait for in "dependsOn" when order matters.
+When you have enough information, or no tool can help, finish with "done": true, no further
+tool calls, and a concise answer based on the tool results.
+
+Respond with a JSON object in this format:
+{
+  "toolCalls": [
+    {
+      "id": "optional id",
+      "name": "tool_name",
+      "arguments": { ... },
+      "dependsOn": ["ids of calls in this step to run first"]
+    }
+  ],
+  "explanation": "Brief explanation of what you're doing",
+  "done": false,
+  "answer": "Concise final answer for the user, only when done is true"
+}
+
+Respond ONLY with valid JSON.`;
+}
+
+/**
+ * Runs a single planned call, recording its result or error
+ * Resource reads and prompt renders are planned and recorded like tool calls
+ */
+async function executeToolCall(
+  toolCall: ToolCallPlan['toolCalls'][number],
+  step: number,
+  wrappedClient: Client,
+  config: WrapperConfig,
+  options: ToolLoopOptions
+): Promise<ToolCallRecord> {
+  const args = toolCall.arguments;
+  const record = { step, tool: toolCall.name, arguments: args };
+  options.signal?.throwIfAborted();
+
+  // Refuse restricted calls before they reach the wrapped server
+  const action = resolveToolPolicy(toolCall.name, config.policy);
+  if (action === 'deny') {
+    return {
+      ...record,
+      error: `Tool ${toolCall.name} is denied by policy`,
+      blocked: 'denied'
+    };
+  }
+  if (action === 'confirm' && !options.confirmed) {
+    return {
+      ...record,
+      error: `Tool ${toolCall.name} requires confirmation; call again with confirm: true to allow it`,
+      blocked: 'confirmation_required'
+    };
+  }
+
+  try {
+    // Aborting sends a cancellation to the wrapped server
+    const load = () => callWrappedOperation(wrappedClient, toolCall.name, args, {
+      signal: options.signal,
+      timeout: resolveToolTimeout(toolCall.name, config.execution)
+    });
+    const result = await (options.cacheCall ? options.cacheCall(toolCall.name, args, load) : load());
+    return result.isError
+      ? { ...record, error: JSON.stringify(result.content) }
+      : { ...record, result: result.content };
+  } catch (error) {
+    // A cancelled query ends here rather than being reported back to the LLM
+    options.signal?.throwIfAborted();
+    return { ...record, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Runs the calls requested for one step concurrently, up to the concurrency limit
+ * A call waits for the calls it depends on and is skipped if any of them failed;
+ * records keep the order of the plan
+ */
+async function executeToolCalls(
+  toolCalls: ToolCallPlan['toolCalls'],
+  step: number,
+  wrappedClient: Client,
+  config: WrapperConfig,
+  options: ToolLoopOptions
+): Promise<ToolCallRecord[]> {
+  const limit = options.limiter || createLimiter(config.execution?.maxConcurrency);
+  const indexById = new Map<string, number>();
+  toolCalls.forEach((toolCall, index) => {
+    if (toolCall.id !== undefined) indexById.set(toolCall.id, index);
+  });
+
+  const runs = new Map<number, Promise<ToolCallRecord>>();
+  const run = (index: number): Promise<ToolCallRecord> => {
+    const existing = runs.get(index);
+    if (existing) return existing;
+
+    const running = (async () => {
+      const toolCall = toolCalls[index];
+
+      // Wait for dependencies outside the limiter so they can take its slots
+      for (const id of toolCall.dependsOn || []) {
+        const dependencyIndex = indexById.get(id);
+        if (dependencyIndex === undefined) continue;
+
+        const dependency = await run(dependencyIndex);
+        if (dependency.error !== undefined) {
+          const skipped: ToolCallRecord = {
+            step,
+            tool: toolCall.name,
+            arguments: toolCall.arguments,
+            error: `Skipped because dependency ${id} (${dependency.tool}) failed`
+          };
+          options.onProgress?.(skipped);
+          return skipped;
+        }
+      }
+
+      const record = await limit(() => executeToolCall(toolCall, step, wrappedClient, config, options));
+      options.onProgress?.(record);
+      return record;
+    })();
+
+    runs.set(index, running);
+    return running;
+  };
+
+  return Promise.all(toolCalls.map((_toolCall, index) => run(index)));
+}
+
+/**
+ * Plans the first step of a query without calling any tools
+ */
+export async function planToolCalls(
+  query: string,
+  config: WrapperConfig,
+  llm: LLMRuntime,
+  tools: ValidatableTool[],
+  options: ToolLoopOptions = {}
+): Promise<{ plan: ToolCallPlan; tokensUsed: number }> {
+  const maxSteps = config.execution?.maxSteps ?? DEFAULT_MAX_STEPS;
+
+  const { value: plan, tokensUsed } = await generateStructured(
+    llm,
+    buildStepPrompt(query, config, tools, [], 1, maxSteps, Boolean(options.confirmed)),
+    createPlanSchema(tools)
+  );
+
+  return { plan, tokensUsed };
+}
+
+/**
+ * Runs an approved plan exactly as planned
+ * If the LLM expected more steps after the planned calls, the tool loop continues
+ * from their results; otherwise no further LLM planning happens
+ */
+export async function runApprovedPlan(
+  plan: Pick<ToolCallPlan, 'toolCalls' | 'explanation' | 'done'> & { query: string },
+  config: WrapperConfig,
+  wrappedClient: Client,
+  llm: LLMRuntime,
+  tools: ValidatableTool[],
+  options: ToolLoopOptions = {}
+): Promise<AgentResult> {
+  // The wrapped server's tools may have changed since the plan was approved
+  const problems = plan.toolCalls.flatMap(toolCall =>
+    validateToolCall(toolCall.name, toolCall.arguments, tools).map(message => `${toolCall.name}: ${message}`));
+  if (problems.length > 0) {
+    throw new Error(`Plan is no longer valid: ${problems.join('; ')}`);
+  }
+
+  const approved: AgentResult = {
+    explanation: plan.explanation || '',
+    results: await executeToolCalls(plan.toolCalls, 1, wrappedClient, config, options),
+    steps: 1,
+    stopReason: 'done',
+    tokensUsed: 0
+  };
+
+  if (plan.done) {
+    return approved;
+  }
+  return runToolLoop(plan.query, config, wrappedClient, llm, tools, { ...options, resume: approved });
+}
+
+/**
+ * Runs the iterative tool loop until the LLM is done or a limit is reached
+ */
+export async function runToolLoop(
+  query: string,
+  config: WrapperConfig,
+  wrappedClient: Client,
+  llm: LLMRuntime,
+  tools: ValidatableTool[],
+  options: ToolLoopOptions = {}
+): Promise<AgentResult> {
+  const maxSteps = config.execution?.maxSteps ?? DEFAULT_MAX_STEPS;
+  const maxTokens = config.execution?.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+  // Plans are checked against the tools' input schemas before anything runs
+  const planSchema = createPlanSchema(tools);
+
+  const results: ToolCallRecord[] = [...(options.resume?.results || [])];
+  const explanations: string[] = options.resume?.explanation ? [options.resume.explanation] : [];
+  let tokensUsed = options.resume?.tokensUsed ?? 0;
+  let stopReason: StopReason = 'max_steps';
+  let answer: string | undefined;
+  let step = options.resume?.steps ?? 0;
+
+  while (step < maxSteps) {
+    options.signal?.throwIfAborted();
+    step++;
+
+    const { value: response, tokensUsed: stepTokens } = await generateStructured(
+      llm,
+      buildStepPrompt(query, config, tools, results, step, maxSteps, Boolean(options.confirmed)),
+      planSchema
+    );
+    tokensUsed += stepTokens;
+
+    if (response.explanation) {
+      explanations.push(response.explanation);
+    }
+
+    const toolCalls = response.toolCalls;
+    if (toolCalls.length > 0) {
+      results.push(...await executeToolCalls(toolCalls, step, wrappedClient, config, options));
+    }
+
+    if (response.done || toolCalls.length === 0) {
+      stopReason = 'done';
+      // An answer given alongside new tool calls was written before seeing their results
+      answer = toolCalls.length === 0 ? response.answer : undefined;
+      break;
+    }
+
+    if (tokensUsed >= maxTokens) {
+      stopReason = 'token_budget';
+      break;
+    }
+  }
+
+  return {
+    answer,
+    explanation: explanations.join(' '),
+    results,
+    steps: step,
+    stopReason,
+    tokensUsed
+  };
+}
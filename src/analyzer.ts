@@ -4,38 +4,41 @@
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import {
   ServerCapabilities,
   LLMAnalysis,
+  LLMAnalysisSchema,
+  LLMRevision,
+  LLMRevisionSchema,
+  LockableField,
   ServerConfig,
-  AnalysisResult
+  AnalysisResult,
+  AnalyzeOptions,
+  ConnectionTarget
 } from './types.js';
-
-/**
- * Validates environment configuration
- */
-function validateEnvironment(): void {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
-}
+import {
+  LLMRuntime,
+  mergeLLMSettings,
+  validateProviderEnvironment,
+  createLLMRuntime
+} from './providers.js';
+import { createClientTransport } from './transports.js';
+import { generateStructured } from './structured.js';
+import { proposePolicy } from './policy.js';
+import { templateAnalysis } from './template.js';
+import { CURRENT_SCHEMA_VERSION } from './migrations.js';
+import { CapabilityDrift, CapabilityEntry, CAPABILITY_KINDS, describeDrift, entryKey } from './drift.js';
 
 /**
  * Establishes connection to MCP server
  */
-async function connectToServer(
-  serverPath: string,
-  args: string[]
-): Promise<{ client: Client; transport: StdioClientTransport }> {
-  const transport = new StdioClientTransport({
-    command: serverPath,
-    args: args
-  });
+export async function connectToServer(
+  target: ConnectionTarget
+): Promise<{ client: Client; transport: Transport }> {
+  const transport = createClientTransport(target);
 
   const client = new Client({
     name: 'mcp-context-saver-analyzer',
@@ -55,7 +58,7 @@ async function connectToServer(
 /**
  * Discovers server capabilities
  */
-async function discoverCapabilities(client: Client): Promise<ServerCapabilities> {
+export async function discoverCapabilities(client: Client): Promise<ServerCapabilities> {
   try {
     // Try tools first
     console.log('Discovering tools...');
@@ -73,6 +76,17 @@ async function discoverCapabilities(client: Client): Promise<ServerCapabilities>
       resourcesResponse = { resources: [] };
     }
 
+    // Try resource templates (might not be supported)
+    let templatesResponse;
+    try {
+      console.log('Discovering resource templates...');
+      templatesResponse = await client.listResourceTemplates();
+      console.log(`Found ${templatesResponse.resourceTemplates?.length || 0} resource templates`);
+    } catch (error) {
+      console.log('Server does not support resource templates');
+      templatesResponse = { resourceTemplates: [] };
+    }
+
     // Try prompts (might not be supported)  
     let promptsResponse;
     try {
@@ -87,6 +101,7 @@ async function discoverCapabilities(client: Client): Promise<ServerCapabilities>
     return {
       tools: toolsResponse.tools || [],
       resources: resourcesResponse.resources || [],
+      resourceTemplates: templatesResponse.resourceTemplates || [],
       prompts: promptsResponse.prompts || []
     };
   } catch (error) {
@@ -98,7 +113,10 @@ async function discoverCapabilities(client: Client): Promise<ServerCapabilities>
 /**
  * Analyzes capabilities using LLM
  */
-async function analyzeWithLLM(capabilities: ServerCapabilities): Promise<LLMAnalysis> {
+export async function analyzeWithLLM(
+  capabilities: ServerCapabilities,
+  llm: LLMRuntime
+): Promise<LLMAnalysis> {
   const analysisPrompt = `
 You are analyzing an MCP (Model Context Protocol) server's capabilities to generate an expert tool configuration.
 
@@ -110,6 +128,9 @@ ${JSON.stringify(capabilities.tools, null, 2)}
 RESOURCES (${capabilities.resources.length}):
 ${JSON.stringify(capabilities.resources, null, 2)}
 
+RESOURCE TEMPLATES (${capabilities.resourceTemplates.length}):
+${JSON.stringify(capabilities.resourceTemplates, null, 2)}
+
 PROMPTS (${capabilities.prompts.length}):
 ${JSON.stringify(capabilities.prompts, null, 2)}
 
@@ -128,23 +149,81 @@ Based on these capabilities, generate a JSON configuration with the following st
 Generate ONLY valid JSON without any markdown formatting or additional text.`;
 
   try {
-    const response = await generateText({
-      model: openai('gpt-4o-mini'),
-      prompt: analysisPrompt,
-      temperature: 0.3
-    });
-
-    return JSON.parse(response.text) as LLMAnalysis;
+    const { value } = await generateStructured(
+      llm,
+      analysisPrompt,
+      LLMAnalysisSchema
+    );
+    return value;
   } catch (error) {
     throw new Error(`Failed to analyze server capabilities: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Asks the LLM to revise the description and system prompt of an existing expert
+ * for the capabilities that changed, leaving everything else as it was
+ */
+export async function reviseWithLLM(
+  current: { name: string; description: string; systemPrompt: string },
+  drift: CapabilityDrift,
+  live: ServerCapabilities,
+  fields: LockableField[],
+  llm: LLMRuntime
+): Promise<LLMRevision> {
+  // Only the definitions of new and changed entries are needed to revise the text
+  const affected = CAPABILITY_KINDS.map(kind => {
+    const keys = new Set([...drift[kind].added, ...drift[kind].changed.map(entry => entry.key)]);
+    const entries: CapabilityEntry[] = live[kind];
+    const affectedEntries = entries.filter(entry => keys.has(entryKey(kind, entry)));
+    return `${kind.toUpperCase()} (${affectedEntries.length}):\n${JSON.stringify(affectedEntries, null, 2)}`;
+  }).join('\n\n');
+
+  const requested = [
+    ...(fields.includes('description') ? ['"expertDescription": "The revised description"'] : []),
+    ...(fields.includes('systemPrompt') ? ['"systemPrompt": "The revised system prompt"'] : [])
+  ].join(',\n  ');
+
+  const revisionPrompt = `
+You maintain the configuration of "${current.name}", an expert that coordinates with an MCP (Model Context Protocol) server.
+
+Current description:
+${current.description}
+
+Current system prompt:
+${current.systemPrompt}
+
+The server's capabilities have changed since the configuration was generated:
+${describeDrift(drift).map(line => `- ${line}`).join('\n')}
+
+Definitions of the new and changed capabilities:
+
+${affected}
+
+Revise the text so it reflects these changes. Keep wording, structure and guidance that is still accurate; only change what the capability changes affect, and drop references to removed capabilities.
+
+Return JSON with the following structure:
+{
+  ${requested}
+}
+
+Generate ONLY valid JSON without any markdown formatting or additional text.`;
+
+  try {
+    const { value } = await generateStructured(llm, revisionPrompt, LLMRevisionSchema);
+    return value;
+  } catch (error) {
+    throw new Error(`Failed to revise configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Saves configuration to file
  */
-async function saveConfiguration(config: ServerConfig): Promise<string> {
-  const configDir = path.join(process.cwd(), 'configs');
+async function saveConfiguration(
+  config: ServerConfig,
+  configDir: string = path.join(process.cwd(), 'configs')
+): Promise<string> {
   await fs.mkdir(configDir, { recursive: true });
 
   const configFileName = `${config.name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}.json`;
@@ -156,44 +235,67 @@ async function saveConfiguration(config: ServerConfig): Promise<string> {
 
 /**
  * Analyzes an MCP server and generates a configuration file
- * @param serverPath - Path to the MCP server executable
+ * @param serverPath - Path to the MCP server executable, or its URL for remote transports
  * @param args - Arguments to pass to the server
+ * @param options - LLM provider and transport overrides, where to save the configuration,
+ * and whether to use templates instead of an LLM
  * @returns Analysis result with generated configuration
  */
 export async function analyzeServer(
   serverPath: string,
-  args: string[] = []
+  args: string[] = [],
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
-  validateEnvironment();
+  const llm = mergeLLMSettings(options.llm);
+  // Template analysis needs no credentials; the settings are still saved for serving
+  if (!options.template) {
+    validateProviderEnvironment(llm);
+  }
 
   let client: Client | null = null;
 
   try {
     // Connect to server
-    const connection = await connectToServer(serverPath, args);
+    const target: ConnectionTarget = {
+      serverPath,
+      args,
+      transport: options.transport,
+      headers: options.headers,
+      env: options.env,
+      cwd: options.cwd
+    };
+    const connection = await connectToServer(target);
     client = connection.client;
 
     // Discover capabilities
     const capabilities = await discoverCapabilities(client);
 
-    // Analyze capabilities with LLM
-    const analysis = await analyzeWithLLM(capabilities);
+    // Analyze capabilities with LLM, or fill in templates from what the server reported
+    const analysis = options.template
+      ? templateAnalysis(capabilities, serverPath, {
+        serverInfo: client.getServerVersion(),
+        instructions: client.getInstructions()
+      })
+      : await analyzeWithLLM(capabilities, createLLMRuntime(llm));
 
     // Save configuration
     const configPath = await saveConfiguration({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       name: analysis.expertName,
       description: analysis.expertDescription,
-      serverPath,
-      args,
+      ...target,
       systemPrompt: analysis.systemPrompt,
       capabilities,
+      llm,
+      policy: proposePolicy(capabilities.tools),
       metadata: {
         analyzedAt: new Date().toISOString(),
         toolCount: capabilities.tools.length,
         resourceCount: capabilities.resources.length,
-        promptCount: capabilities.prompts.length
+        promptCount: capabilities.prompts.length,
+        generatedBy: options.template ? 'template' : 'llm'
       }
-    });
+    }, options.configDir);
 
     return {
       expertName: analysis.expertName,
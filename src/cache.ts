@@ -0,0 +1,206 @@
+/**
+ * Result caching for wrapped servers
+ * Serves repeated discovery listings and read-only calls from memory, optionally
+ * persisted to disk, and counts hits and misses per expert call
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CacheSettings } from './types.js';
+import { matchesGlob } from './passthrough.js';
+import { READ_RESOURCE_TOOL, GET_PROMPT_TOOL } from './resources.js';
+import { ListChangedKind } from './drift.js';
+
+export const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+export const DEFAULT_DISCOVERY_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Key prefixes, so related entries can be invalidated together
+ */
+export const DISCOVERY_KEY_PREFIX = 'list:';
+export const CALL_KEY_PREFIX = 'call:';
+
+/**
+ * Cache hit and miss counts
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cached value with its expiry time
+ */
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Key-value store with per-entry expiry
+ */
+export interface CacheStore {
+  get(key: string): unknown | undefined;
+  set(key: string, value: unknown, ttlMs: number): void;
+  /** Removes every entry whose key starts with the prefix, or all entries */
+  clear(prefix?: string): void;
+}
+
+/**
+ * Per-call view of a cache store that counts hits and misses
+ */
+export interface CacheSession {
+  readonly stats: CacheStats;
+  /** Returns the cached value, or loads it and caches it if shouldCache allows */
+  fetch<T>(
+    key: string,
+    ttlMs: number,
+    load: () => Promise<T>,
+    shouldCache?: (value: T) => boolean
+  ): Promise<T>;
+}
+
+/**
+ * Creates a cache store, loading and persisting entries when a file path is given
+ */
+export async function createCacheStore(filePath?: string): Promise<CacheStore> {
+  const entries = new Map<string, CacheEntry>();
+  let writing: Promise<void> = Promise.resolve();
+
+  if (filePath) {
+    try {
+      const saved = JSON.parse(await fs.readFile(filePath, 'utf-8')) as Record<string, CacheEntry>;
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(saved)) {
+        if (entry.expiresAt > now) entries.set(key, entry);
+      }
+    } catch (error) {
+      // A missing cache file just means an empty cache
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Ignoring unreadable cache file ${filePath}:`, error);
+      }
+    }
+  }
+
+  const persist = () => {
+    if (!filePath) return;
+
+    // Writes are chained so they land in order
+    writing = writing
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(Object.fromEntries(entries)));
+      })
+      .catch(error => console.error(`Failed to write cache file ${filePath}:`, error));
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    set(key, value, ttlMs) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      persist();
+    },
+
+    clear(prefix) {
+      for (const key of [...entries.keys()]) {
+        if (prefix === undefined || key.startsWith(prefix)) entries.delete(key);
+      }
+      persist();
+    }
+  };
+}
+
+/**
+ * Creates a session over a store for a single expert call
+ */
+export function createCacheSession(store: CacheStore): CacheSession {
+  const stats: CacheStats = { hits: 0, misses: 0 };
+
+  return {
+    stats,
+
+    async fetch(key, ttlMs, load, shouldCache = () => true) {
+      const cached = store.get(key);
+      if (cached !== undefined) {
+        stats.hits++;
+        return cached as Awaited<ReturnType<typeof load>>;
+      }
+
+      stats.misses++;
+      const value = await load();
+      if (shouldCache(value)) {
+        store.set(key, value, ttlMs);
+      }
+      return value;
+    }
+  };
+}
+
+/**
+ * Serializes a value with object keys sorted, so equal arguments give equal keys
+ */
+function normalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(normalize).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${normalize(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Builds the cache key for a call
+ */
+export function callCacheKey(name: string, args: Record<string, unknown>): string {
+  return `${CALL_KEY_PREFIX}${name}:${normalize(args)}`;
+}
+
+/**
+ * Resolves how long a call's result may be cached, or undefined if it must not be
+ * Per-tool TTLs opt any tool in; otherwise only read-only tools, resource reads
+ * and prompt renders are cached
+ */
+export function resolveCacheTtl(
+  tool: { name: string; annotations?: { readOnlyHint?: boolean } },
+  settings: CacheSettings
+): number | undefined {
+  const match = Object.entries(settings.toolTtls || {})
+    .find(([pattern]) => matchesGlob(tool.name, pattern));
+  if (match) {
+    return match[1] > 0 ? match[1] : undefined;
+  }
+
+  const readOnly = tool.annotations?.readOnlyHint === true
+    || tool.name === READ_RESOURCE_TOOL
+    || tool.name === GET_PROMPT_TOOL;
+
+  return readOnly ? settings.ttlMs ?? DEFAULT_CACHE_TTL_MS : undefined;
+}
+
+/**
+ * Drops the listings and results a list_changed notification may have made stale
+ */
+export function invalidateCapability(store: CacheStore, kind: ListChangedKind): void {
+  if (kind === 'tools') {
+    store.clear(`${DISCOVERY_KEY_PREFIX}tools`);
+    store.clear(CALL_KEY_PREFIX);
+  } else if (kind === 'resources') {
+    // Covers resource templates as well
+    store.clear(`${DISCOVERY_KEY_PREFIX}resource`);
+    store.clear(`${CALL_KEY_PREFIX}${READ_RESOURCE_TOOL}:`);
+  } else {
+    store.clear(`${DISCOVERY_KEY_PREFIX}prompts`);
+    store.clear(`${CALL_KEY_PREFIX}${GET_PROMPT_TOOL}:`);
+  }
+}
@@ -7,25 +7,276 @@
 
 import { Command } from 'commander';
 import { analyzeServer } from './analyzer.js';
-import { startWrapperServer } from './wrapper.js';
+import { diffConfig, reanalyzeConfig } from './diff.js';
+import { inspectServer, renderInspection } from './inspect.js';
+import { CAPABILITY_KINDS, hasDrift, hasListDrift, describeDrift } from './drift.js';
+import {
+  CONFIG_DIR_ENV,
+  resolveConfigDir,
+  listConfigFiles,
+  listConfigs,
+  findConfig,
+  validateConfigFile
+} from './configs.js';
+import { CURRENT_SCHEMA_VERSION, migrateConfigFile } from './migrations.js';
+import { startWrapperServer, loadConfig } from './wrapper.js';
+import {
+  LLMSettings,
+  LLMProviderSchema,
+  TransportType,
+  TransportTypeSchema,
+  InspectFormatSchema,
+  HttpServeOptions
+} from './types.js';
+import { envReference, findLiteralSecrets } from './secrets.js';
+import { DEFAULT_HTTP_HOST } from './transports.js';
+import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as process from 'process';
+import { spawn } from 'child_process';
+
+/**
+ * LLM options shared by the analyze and serve commands
+ */
+interface LLMCommandOptions {
+  provider?: string;
+  model?: string;
+  temperature?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Options accepted by the analyze command
+ */
+interface AnalyzeCommandOptions extends LLMCommandOptions {
+  /** False with --no-llm */
+  llm: boolean;
+  update?: string;
+  transport?: string;
+  header: string[];
+  env: string[];
+  cwd?: string;
+  configDir?: string;
+}
+
+/**
+ * Options accepted by the inspect command
+ */
+interface InspectCommandOptions {
+  transport?: string;
+  header: string[];
+  env: string[];
+  cwd?: string;
+  format: string;
+}
+
+/**
+ * Options accepted by the serve command
+ */
+interface ServeCommandOptions extends LLMCommandOptions {
+  router?: boolean;
+  http?: string;
+  host?: string;
+  drainTimeout?: string;
+  configDir?: string;
+}
+
+/**
+ * Options accepted by the diff command
+ */
+interface DiffCommandOptions {
+  update?: boolean;
+}
+
+/**
+ * Options accepted by the configs subcommands
+ */
+interface ConfigsCommandOptions {
+  configDir?: string;
+  json?: boolean;
+}
+
+/**
+ * Collects the values of a repeatable option
+ */
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Converts transport command options into a transport type and request headers
+ */
+function parseTransportOptions(
+  options: Pick<AnalyzeCommandOptions, 'transport' | 'header'>
+): { transport?: TransportType; headers?: Record<string, string> } {
+  const transport = options.transport !== undefined
+    ? TransportTypeSchema.safeParse(options.transport)
+    : undefined;
+  if (transport && !transport.success) {
+    throw new Error(`Invalid transport: ${options.transport} (expected one of ${TransportTypeSchema.options.join(', ')})`);
+  }
+
+  if (options.header.length === 0) {
+    return { transport: transport?.data };
+  }
+
+  const headers: Record<string, string> = {};
+  for (const header of options.header) {
+    const separator = header.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid header: ${header} (expected "Name: value")`);
+    }
+    headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+  }
+
+  return { transport: transport?.data, headers };
+}
+
+/**
+ * Converts --env options into launch environment variables.
+ * A bare NAME is stored as a ${env:NAME} reference so its value never lands in the configuration.
+ */
+function parseEnvOptions(values: string[]): Record<string, string> | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const env: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator === 0) {
+      throw new Error(`Invalid environment variable: ${value} (expected NAME or NAME=value)`);
+    }
+    if (separator < 0) {
+      env[value] = envReference(value);
+    } else {
+      env[value.slice(0, separator)] = value.slice(separator + 1);
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Splits a command line such as $EDITOR into words at whitespace, honouring single and
+ * double quotes, e.g. '"/opt/My Editor/bin/edit" --wait'
+ */
+function splitCommandLine(commandLine: string): string[] {
+  const words: string[] = [];
+  for (const match of commandLine.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    words.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return words;
+}
+
+/**
+ * Converts the serve command's HTTP options into HTTP serve options
+ */
+function parseHttpOptions(options: ServeCommandOptions): HttpServeOptions | undefined {
+  if (options.http === undefined) {
+    return undefined;
+  }
+
+  const port = Number(options.http);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${options.http}`);
+  }
+
+  return { port, host: options.host ?? DEFAULT_HTTP_HOST };
+}
+
+/**
+ * Converts LLM command options into provider settings overrides
+ */
+function parseLLMOptions(options: LLMCommandOptions): Partial<LLMSettings> {
+  const temperature = options.temperature !== undefined ? Number(options.temperature) : undefined;
+  if (temperature !== undefined && Number.isNaN(temperature)) {
+    throw new Error(`Invalid temperature: ${options.temperature}`);
+  }
+
+  const provider = options.provider !== undefined
+    ? LLMProviderSchema.safeParse(options.provider)
+    : undefined;
+  if (provider && !provider.success) {
+    throw new Error(`Invalid LLM provider: ${options.provider} (expected one of ${LLMProviderSchema.options.join(', ')})`);
+  }
+
+  return {
+    provider: provider?.data,
+    model: options.model,
+    temperature,
+    baseURL: options.baseUrl
+  };
+}
 
 const program = new Command();
 
 program
   .name('mcp-context-saver')
   .description('MCP Context Saver - Analyze MCP servers and create LLM-powered wrappers')
-  .version('0.0.1');
+  .version('0.0.1')
+  .enablePositionalOptions();
 
 // Analyze command
 program
   .command('analyze')
   .description('Analyze an MCP server and generate configuration')
-  .argument('<server-path>', 'Path to the MCP server executable')
+  .argument('[server-path]', 'Path to the MCP server executable, or its URL for http and sse transports')
   .argument('[args...]', 'Additional arguments for the server')
-  .action(async (serverPath: string, args: string[] = []) => {
+  .option('--provider <name>', 'LLM provider (openai, anthropic, openai-compatible, scripted)')
+  .option('--model <name>', 'LLM model name')
+  .option('--temperature <number>', 'LLM sampling temperature')
+  .option('--base-url <url>', 'Base URL for the LLM API (e.g. a self-hosted endpoint)')
+  .option('--transport <type>', 'Transport used to reach the server (stdio, http, sse)')
+  .option('--header <header>', 'HTTP header for remote servers as "Name: value" (repeatable)', collectValues, [])
+  .option('--env <variable>', 'Environment variable for the server as NAME=value, or NAME to reference it at launch (repeatable)', collectValues, [])
+  .option('--cwd <dir>', 'Working directory for the server process')
+  .option('--update <config>', 'Re-analyze the server of an existing configuration and update it in place')
+  .option('--config-dir <dir>', `Directory to save the configuration in (default: $${CONFIG_DIR_ENV} or ./configs)`)
+  .option('--no-llm', 'Generate the description and system prompt from templates, without an LLM')
+  .passThroughOptions()
+  .action(async (serverPath: string | undefined, args: string[] = [], options: AnalyzeCommandOptions) => {
     try {
+      if (options.update !== undefined) {
+        if (serverPath) {
+          console.error('Error: The server is taken from the configuration when using --update');
+          process.exit(1);
+        }
+
+        console.log(`Re-analyzing ${options.update}...`);
+        console.log('');
+
+        const result = await reanalyzeConfig(options.update, {
+          llm: parseLLMOptions(options),
+          template: !options.llm
+        });
+
+        console.log('');
+        if (!result.updated) {
+          console.log('✓ Configuration already matches the server; nothing to update');
+          return;
+        }
+
+        console.log('✓ Configuration updated!');
+        console.log('');
+        if (hasDrift(result.drift)) {
+          console.log('Capability changes:');
+          for (const line of describeDrift(result.drift)) {
+            console.log(`  - ${line}`);
+          }
+          console.log('');
+        }
+        if (result.enriched) {
+          console.log('Replaced the template-generated text with an LLM analysis');
+        }
+        console.log(`Revised: ${result.revised.join(', ') || 'none'}`);
+        if (result.locked.length > 0) {
+          console.log(`Locked: ${result.locked.join(', ')}`);
+        }
+        console.log(`Previous version saved to: ${result.backupPath}`);
+        return;
+      }
+
       // Validate inputs
       if (!serverPath || serverPath.trim() === '') {
         console.error('Error: Server path is required');
@@ -39,8 +290,22 @@ program
       }
       console.log('');
 
+      // Headers and variables are saved as given, so point out credentials that are not references
+      const transportOptions = parseTransportOptions(options);
+      const env = parseEnvOptions(options.env);
+      for (const secret of findLiteralSecrets({ headers: transportOptions.headers, env })) {
+        console.warn(`Warning: ${secret} looks like a credential and will be saved in the configuration as written; use ${envReference('NAME')} to reference an environment variable instead`);
+      }
+
       // Analyze the server
-      const result = await analyzeServer(serverPath, args);
+      const result = await analyzeServer(serverPath, args, {
+        llm: parseLLMOptions(options),
+        ...transportOptions,
+        env,
+        cwd: options.cwd,
+        configDir: resolveConfigDir(options.configDir),
+        template: !options.llm
+      });
 
       // Display results
       console.log('✓ Analysis complete!');
@@ -72,6 +337,11 @@ program
           console.error('');
           console.error('Please set your OpenAI API key:');
           console.error('  export OPENAI_API_KEY=your-api-key');
+          console.error('Or select another provider with --provider');
+        } else if (error.message.includes('ANTHROPIC_API_KEY')) {
+          console.error('');
+          console.error('Please set your Anthropic API key:');
+          console.error('  export ANTHROPIC_API_KEY=your-api-key');
         } else if (error.message.includes('Failed to connect')) {
           console.error('');
           console.error('Make sure the server path is correct and the server is executable.');
@@ -85,25 +355,85 @@ program
     }
   });
 
+// Inspect command
+program
+  .command('inspect')
+  .description('List what an MCP server offers, without an LLM or writing a configuration')
+  .argument('<server-path>', 'Path to the MCP server executable, or its URL for http and sse transports')
+  .argument('[args...]', 'Additional arguments for the server')
+  .option('--transport <type>', 'Transport used to reach the server (stdio, http, sse)')
+  .option('--header <header>', 'HTTP header for remote servers as "Name: value" (repeatable)', collectValues, [])
+  .option('--env <variable>', 'Environment variable for the server as NAME=value, or NAME to pass it through (repeatable)', collectValues, [])
+  .option('--cwd <dir>', 'Working directory for the server process')
+  .option('--format <format>', 'Output format (table, json, markdown)', 'table')
+  .passThroughOptions()
+  .action(async (serverPath: string, args: string[] = [], options: InspectCommandOptions) => {
+    try {
+      const format = InspectFormatSchema.safeParse(options.format);
+      if (!format.success) {
+        throw new Error(`Invalid format: ${options.format} (expected one of ${InspectFormatSchema.options.join(', ')})`);
+      }
+
+      const report = await inspectServer({
+        serverPath,
+        args,
+        ...parseTransportOptions(options),
+        env: parseEnvOptions(options.env),
+        cwd: options.cwd
+      });
+      console.log(renderInspection(report, format.data));
+    } catch (error) {
+      console.error('Error inspecting server:');
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // Serve command
 program
   .command('serve')
-  .description('Start the wrapper server with a configuration file')
-  .argument('<config>', 'Path to the configuration file')
-  .action(async (configPath: string) => {
+  .description('Start the wrapper server with one or more configuration files')
+  .argument('<configs...>', 'Configuration files, directories of them, or expert names to look up in the configuration directory')
+  .option('--provider <name>', 'LLM provider (openai, anthropic, openai-compatible, scripted)')
+  .option('--model <name>', 'LLM model name')
+  .option('--temperature <number>', 'LLM sampling temperature')
+  .option('--base-url <url>', 'Base URL for the LLM API (e.g. a self-hosted endpoint)')
+  .option('--router', 'Also expose a router expert that picks the right server for a query')
+  .option('--http <port>', 'Expose the wrapper over HTTP on this port instead of stdio')
+  .option('--host <host>', `Interface to bind when serving over HTTP (default: ${DEFAULT_HTTP_HOST}; use 0.0.0.0 for all interfaces)`)
+  .option('--drain-timeout <ms>', 'Milliseconds to let in-flight requests finish on shutdown')
+  .option('--config-dir <dir>', `Directory to look up expert names in (default: $${CONFIG_DIR_ENV} or ./configs)`)
+  .action(async (configPaths: string[], options: ServeCommandOptions) => {
     try {
-      console.log(`Starting wrapper server with config: ${configPath}`);
+      console.log(`Starting wrapper server with config: ${configPaths.join(', ')}`);
       console.log('');
       console.log('The server is now running and ready to receive MCP requests.');
       console.log('Press Ctrl+C to stop the server.');
       console.log('');
       
-      // Resolve to absolute path
-      const absolutePath = path.isAbsolute(configPath) 
-        ? configPath 
-        : path.resolve(process.cwd(), configPath);
-      
-      await startWrapperServer(absolutePath);
+      // Resolve expert names, then make every path absolute
+      const configDir = resolveConfigDir(options.configDir);
+      const resolvedPaths = await Promise.all(configPaths.map(reference => findConfig(reference, configDir)));
+      const absolutePaths = resolvedPaths.map(configPath => path.isAbsolute(configPath)
+        ? configPath
+        : path.resolve(process.cwd(), configPath));
+
+      const drainTimeoutMs = options.drainTimeout !== undefined ? Number(options.drainTimeout) : undefined;
+      if (drainTimeoutMs !== undefined && (!Number.isInteger(drainTimeoutMs) || drainTimeoutMs < 0)) {
+        throw new Error(`Invalid drain timeout: ${options.drainTimeout}`);
+      }
+
+      const http = parseHttpOptions(options);
+      await startWrapperServer(absolutePaths, {
+        llm: parseLLMOptions(options),
+        router: options.router,
+        http,
+        drainTimeoutMs
+      });
+
+      if (http) {
+        console.log(`Listening on http://${http.host}:${http.port}/mcp (Streamable HTTP) and /sse (SSE)`);
+      }
     } catch (error) {
       console.error(`Failed to start wrapper server:`);
       
@@ -115,6 +445,15 @@ program
           console.error('');
           console.error('Please set your OpenAI API key:');
           console.error('  export OPENAI_API_KEY=your-api-key');
+          console.error('Or select another provider with --provider');
+        } else if (error.message.includes('ANTHROPIC_API_KEY')) {
+          console.error('');
+          console.error('Please set your Anthropic API key:');
+          console.error('  export ANTHROPIC_API_KEY=your-api-key');
+        } else if (error.message.includes('No configuration named')) {
+          console.error('');
+          console.error('List the available configurations with:');
+          console.error('  mcp-context-saver configs list');
         } else if (error.message.includes('Failed to load configuration')) {
           console.error('');
           console.error('Make sure the configuration file exists and is valid JSON.');
@@ -133,6 +472,229 @@ program
     }
   });
 
+// Diff command
+program
+  .command('diff')
+  .description('Compare a configuration with the live server it describes; exits with 1 on drift')
+  .argument('<config>', 'Path to the configuration file')
+  .option('--update', 'Rewrite the configuration with the live capabilities')
+  .action(async (configPath: string, options: DiffCommandOptions) => {
+    try {
+      console.log(`Comparing ${configPath} with the live server...`);
+      console.log('');
+
+      const { drift, updated } = await diffConfig(configPath, { update: options.update });
+
+      console.log('');
+      if (!hasDrift(drift)) {
+        console.log('✓ Configuration matches the live server');
+        return;
+      }
+
+      for (const kind of CAPABILITY_KINDS) {
+        const { added, removed, changed } = drift[kind];
+        if (!hasListDrift(drift[kind])) {
+          console.log(`${kind}: no changes`);
+          continue;
+        }
+        console.log(`${kind}:`);
+        added.forEach(key => console.log(`  + ${key}`));
+        removed.forEach(key => console.log(`  - ${key}`));
+        changed.forEach(entry => console.log(`  ~ ${entry.key}: ${entry.fields.join(', ')}`));
+      }
+
+      console.log('');
+      if (updated) {
+        console.log(`Configuration updated: ${configPath}`);
+        console.log('The system prompt was not regenerated; re-run analyze to refresh it.');
+      } else {
+        console.log('Run with --update to refresh the configuration');
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Error comparing configuration:');
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(2);
+    }
+  });
+
+// Configs command
+const configsCommand = program
+  .command('configs')
+  .description('Manage saved configurations');
+
+/**
+ * Prints an error from a configs subcommand and exits
+ */
+function failConfigsCommand(error: unknown): never {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+configsCommand
+  .command('list')
+  .description('List the configurations in the configuration directory')
+  .option('--config-dir <dir>', `Configuration directory (default: $${CONFIG_DIR_ENV} or ./configs)`)
+  .option('--json', 'Print the list as JSON')
+  .action(async (options: ConfigsCommandOptions) => {
+    try {
+      const configDir = resolveConfigDir(options.configDir);
+      const { configs, invalid } = await listConfigs(configDir);
+
+      if (options.json) {
+        console.log(JSON.stringify({ configs, invalid }, null, 2));
+        return;
+      }
+
+      if (configs.length === 0 && invalid.length === 0) {
+        console.log(`No configurations in ${configDir}`);
+        return;
+      }
+
+      for (const config of configs) {
+        console.log(`${config.name} (${config.toolName})`);
+        console.log(`  Server:   ${config.server}`);
+        console.log(`  Tools:    ${config.toolCount}`);
+        console.log(`  Analyzed: ${config.analyzedAt}`);
+        console.log(`  File:     ${config.path}`);
+      }
+      for (const config of invalid) {
+        console.log(`✗ ${config.path}: ${config.error}`);
+      }
+    } catch (error) {
+      failConfigsCommand(error);
+    }
+  });
+
+configsCommand
+  .command('show')
+  .description('Show a configuration by expert name or path')
+  .argument('<name>', 'Expert name, expert tool name or configuration path')
+  .option('--config-dir <dir>', `Configuration directory (default: $${CONFIG_DIR_ENV} or ./configs)`)
+  .option('--json', 'Print the configuration file as stored')
+  .action(async (name: string, options: ConfigsCommandOptions) => {
+    try {
+      const configPath = await findConfig(name, resolveConfigDir(options.configDir));
+
+      // Print the file itself, before migration and defaults are applied
+      if (options.json) {
+        console.log((await fs.readFile(configPath, 'utf-8')).trimEnd());
+        return;
+      }
+
+      const config = await loadConfig(configPath);
+
+      console.log(`${config.name}`);
+      console.log(`Description: ${config.description}`);
+      console.log(`File: ${configPath}`);
+      console.log(`Server: ${[config.serverPath, ...config.args].join(' ')}${config.transport ? ` (${config.transport})` : ''}`);
+      console.log(`Analyzed: ${config.metadata.analyzedAt}`);
+      if (config.locked && config.locked.length > 0) {
+        console.log(`Locked: ${config.locked.join(', ')}`);
+      }
+      console.log('');
+      console.log(`Tools (${config.capabilities.tools.length}):`);
+      config.capabilities.tools.forEach(tool => console.log(`  - ${tool.name}${tool.description ? `: ${tool.description}` : ''}`));
+      console.log(`Resources (${config.capabilities.resources.length}):`);
+      config.capabilities.resources.forEach(resource => console.log(`  - ${resource.uri}${resource.name ? ` (${resource.name})` : ''}`));
+      console.log(`Prompts (${config.capabilities.prompts.length}):`);
+      config.capabilities.prompts.forEach(prompt => console.log(`  - ${prompt.name}${prompt.description ? `: ${prompt.description}` : ''}`));
+      console.log('');
+      console.log('System Prompt:');
+      console.log(config.systemPrompt);
+    } catch (error) {
+      failConfigsCommand(error);
+    }
+  });
+
+configsCommand
+  .command('validate')
+  .description('Check a configuration file against the configuration schema')
+  .argument('<file>', 'Path to the configuration file')
+  .action(async (file: string) => {
+    const result = await validateConfigFile(file);
+    if (result.valid) {
+      console.log(`✓ ${file} is a valid configuration for ${result.config.name}`);
+      if (result.fromVersion < CURRENT_SCHEMA_VERSION) {
+        console.log(`  Schema version ${result.fromVersion} is upgraded on load; run "configs migrate" to update the file to version ${CURRENT_SCHEMA_VERSION}`);
+      }
+      return;
+    }
+
+    console.error(`✗ ${file} is not a valid configuration:`);
+    result.errors.forEach(error => console.error(`  - ${error}`));
+    process.exit(1);
+  });
+
+configsCommand
+  .command('migrate')
+  .description('Upgrade configuration files to the current schema version in place')
+  .argument('[files...]', 'Configuration files to migrate (default: every file in the configuration directory)')
+  .option('--config-dir <dir>', `Configuration directory (default: $${CONFIG_DIR_ENV} or ./configs)`)
+  .action(async (files: string[], options: ConfigsCommandOptions) => {
+    try {
+      const targets = files.length > 0 ? files : await listConfigFiles(resolveConfigDir(options.configDir));
+
+      let failures = 0;
+      for (const file of targets) {
+        try {
+          const result = await migrateConfigFile(file);
+          if (result.applied.length === 0) {
+            console.log(`  ${file}: already at version ${CURRENT_SCHEMA_VERSION}`);
+          } else {
+            console.log(`✓ ${file}: version ${result.fromVersion} → ${CURRENT_SCHEMA_VERSION} (${result.applied.join(', ')})`);
+          }
+        } catch (error) {
+          failures++;
+          console.error(`✗ ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (failures > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      failConfigsCommand(error);
+    }
+  });
+
+configsCommand
+  .command('edit')
+  .description('Open a configuration in $VISUAL or $EDITOR, then validate it')
+  .argument('<name>', 'Expert name, expert tool name or configuration path')
+  .option('--config-dir <dir>', `Configuration directory (default: $${CONFIG_DIR_ENV} or ./configs)`)
+  .action(async (name: string, options: ConfigsCommandOptions) => {
+    try {
+      const configPath = await findConfig(name, resolveConfigDir(options.configDir));
+      const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+
+      // The editor command may carry its own arguments, e.g. "code --wait"; the path is passed
+      // as its own argument so no shell ever interprets it
+      const [command, ...editorArgs] = splitCommandLine(editor);
+      if (!command) {
+        throw new Error('No editor set in $VISUAL or $EDITOR');
+      }
+      const exitCode = await new Promise<number | null>((resolve, reject) => {
+        const child = spawn(command, [...editorArgs, configPath], { stdio: 'inherit' });
+        child.on('error', reject);
+        child.on('exit', resolve);
+      });
+      if (exitCode !== 0) {
+        throw new Error(`Editor exited with code ${exitCode}`);
+      }
+
+      const result = await validateConfigFile(configPath);
+      if (!result.valid) {
+        console.error(`✗ ${configPath} is no longer a valid configuration:`);
+        result.errors.forEach(error => console.error(`  - ${error}`));
+        process.exit(1);
+      }
+      console.log(`✓ ${configPath} saved and valid`);
+    } catch (error) {
+      failConfigsCommand(error);
+    }
+  });
+
 // Help examples
 program.addHelpText('after', `
 Examples:
@@ -145,8 +707,45 @@ Examples:
   # Serve using a configuration
   mcp-context-saver serve ./configs/my-server-config.json
 
+  # Serve a saved configuration by expert name
+  mcp-context-saver serve "File System Expert"
+
+  # List saved configurations and check one after editing it by hand
+  mcp-context-saver configs list
+  mcp-context-saver configs validate ./configs/my-server-config.json
+
+  # Serve every configuration in a directory behind one process, with a router expert
+  mcp-context-saver serve --router ./configs
+
+  # Analyze a remote server over Streamable HTTP with an auth header
+  mcp-context-saver analyze --transport http --header 'Authorization: Bearer \${env:API_TOKEN}' https://example.com/mcp
+
+  # Pass a token to the server without writing its value into the configuration
+  mcp-context-saver analyze --env GITHUB_TOKEN --cwd ./workspace node github-server.js
+
+  # Refresh a configuration after its server changed, keeping locked fields
+  mcp-context-saver analyze --update ./configs/my-server-config.json
+
+  # Generate a configuration without an LLM, then enrich it with one later
+  mcp-context-saver analyze --no-llm ./my-mcp-server.js
+  mcp-context-saver analyze --update ./configs/my-server-config.json
+
+  # See what a server offers and how much context its tool definitions take
+  mcp-context-saver inspect --format markdown node my-mcp-server.js
+
+  # Check in CI that a configuration still matches its server
+  mcp-context-saver diff ./configs/my-server-config.json
+
+  # Share one wrapper between agents over HTTP
+  mcp-context-saver serve --http 3000 ./configs/my-server-config.json
+
+  # Analyze using a self-hosted OpenAI-compatible model
+  mcp-context-saver analyze --provider openai-compatible --base-url http://localhost:11434/v1 --model llama3.1 ./my-mcp-server.js
+
 Environment Variables:
-  OPENAI_API_KEY    Required for both analyze and serve commands
+  OPENAI_API_KEY                 Required when using the openai provider (default)
+  ANTHROPIC_API_KEY              Required when using the anthropic provider
+  MCP_CONTEXT_SAVER_CONFIG_DIR   Directory for saved configurations (default: ./configs)
 `);
 
 // Parse command line arguments
@@ -0,0 +1,42 @@
+/**
+ * Concurrency limiting for wrapped server requests
+ */
+
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * Runs tasks with at most a fixed number in flight at once
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that queues tasks beyond maxConcurrency in FIFO order
+ */
+export function createLimiter(maxConcurrency: number = DEFAULT_MAX_CONCURRENCY): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  // A finishing task hands its slot straight to the next queued one
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxConcurrency) {
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
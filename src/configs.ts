@@ -0,0 +1,144 @@
+/**
+ * Configuration management
+ * Finds, summarizes and validates the configurations saved by analyze
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { WrapperConfig, WrapperConfigSchema } from './types.js';
+import { loadConfig, createExpertTool } from './wrapper.js';
+import { formatZodIssues } from './structured.js';
+import { MigrationResult, migrateConfig } from './migrations.js';
+
+/**
+ * Environment variable that overrides the default configuration directory
+ */
+export const CONFIG_DIR_ENV = 'MCP_CONTEXT_SAVER_CONFIG_DIR';
+
+export const DEFAULT_CONFIG_DIR = 'configs';
+
+/**
+ * One-line overview of a saved configuration
+ */
+export interface ConfigSummary {
+  path: string;
+  name: string;
+  /** Name of the expert tool the configuration exposes */
+  toolName: string;
+  server: string;
+  toolCount: number;
+  analyzedAt: string;
+}
+
+/**
+ * Configuration file that failed to load
+ */
+export interface InvalidConfig {
+  path: string;
+  error: string;
+}
+
+export type ConfigValidation =
+  /** fromVersion is the schema version of the file before in-memory migration */
+  | { valid: true; config: WrapperConfig; fromVersion: number }
+  | { valid: false; errors: string[] };
+
+/**
+ * Resolves the configuration directory: the given one, then $MCP_CONTEXT_SAVER_CONFIG_DIR,
+ * then ./configs
+ */
+export function resolveConfigDir(configDir?: string): string {
+  return path.resolve(configDir || process.env[CONFIG_DIR_ENV] || DEFAULT_CONFIG_DIR);
+}
+
+/**
+ * Summarizes a loaded configuration
+ */
+function summarize(configPath: string, config: WrapperConfig): ConfigSummary {
+  return {
+    path: configPath,
+    name: config.name,
+    toolName: createExpertTool(config).name,
+    server: [config.serverPath, ...config.args].join(' '),
+    toolCount: config.capabilities.tools.length,
+    analyzedAt: config.metadata.analyzedAt
+  };
+}
+
+/**
+ * Lists the configuration files in a directory; a missing directory has none
+ */
+export async function listConfigFiles(configDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(configDir);
+    return entries.filter(entry => entry.endsWith('.json')).sort().map(entry => path.join(configDir, entry));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Failed to read configuration directory: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Lists the configurations in a directory, most recently analyzed first within each name
+ */
+export async function listConfigs(
+  configDir: string
+): Promise<{ configs: ConfigSummary[]; invalid: InvalidConfig[] }> {
+  const configs: ConfigSummary[] = [];
+  const invalid: InvalidConfig[] = [];
+  for (const configPath of await listConfigFiles(configDir)) {
+    try {
+      configs.push(summarize(configPath, await loadConfig(configPath)));
+    } catch (error) {
+      invalid.push({ path: configPath, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  configs.sort((a, b) => a.name.localeCompare(b.name) || b.analyzedAt.localeCompare(a.analyzedAt));
+  return { configs, invalid };
+}
+
+/**
+ * Resolves a configuration reference to a path
+ * Existing files and directories are returned as they are; anything else is matched against
+ * expert names and expert tool names in the configuration directory, preferring the most
+ * recent analysis
+ */
+export async function findConfig(reference: string, configDir: string): Promise<string> {
+  try {
+    await fs.stat(reference);
+    return reference;
+  } catch {
+    // Not a path, so look it up by name
+  }
+
+  const wanted = reference.toLowerCase();
+  const matches = (await listConfigs(configDir)).configs
+    .filter(config => config.name.toLowerCase() === wanted || config.toolName === wanted)
+    .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt));
+
+  if (matches.length === 0) {
+    throw new Error(`No configuration named "${reference}" in ${configDir}`);
+  }
+  return matches[0].path;
+}
+
+/**
+ * Checks a configuration file against the configuration schema, after upgrading it
+ * to the current schema version in memory
+ */
+export async function validateConfigFile(configPath: string): Promise<ConfigValidation> {
+  let migrated: MigrationResult;
+  try {
+    migrated = migrateConfig(JSON.parse(await fs.readFile(configPath, 'utf-8')));
+  } catch (error) {
+    return { valid: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const result = WrapperConfigSchema.safeParse(migrated.config);
+  return result.success
+    ? { valid: true, config: result.data, fromVersion: migrated.fromVersion }
+    : { valid: false, errors: formatZodIssues(result.error) };
+}
@@ -0,0 +1,185 @@
+/**
+ * Configuration drift check and incremental re-analysis
+ * Compares a saved configuration with the server it describes, and refreshes the
+ * configuration's capability snapshot and generated text in place
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import * as fs from 'fs/promises';
+import {
+  ServerCapabilities,
+  LockableField,
+  LockableFieldSchema,
+  LLMRevision,
+  AnalyzeOptions,
+  WrapperConfig
+} from './types.js';
+import { connectToServer, discoverCapabilities, analyzeWithLLM, reviseWithLLM } from './analyzer.js';
+import { ServerIdentity, templateAnalysis } from './template.js';
+import { loadConfig } from './wrapper.js';
+import { mergeLLMSettings, validateProviderEnvironment, createLLMRuntime } from './providers.js';
+import { CapabilityDrift, detectDrift, hasDrift } from './drift.js';
+
+/**
+ * Result of comparing a configuration with its live server
+ */
+export interface ConfigDiff {
+  drift: CapabilityDrift;
+  live: ServerCapabilities;
+  /** Whether the configuration file was rewritten with the live capabilities */
+  updated: boolean;
+}
+
+/**
+ * Result of re-analyzing a configuration
+ */
+export interface ReanalysisResult extends ConfigDiff {
+  /** Fields the LLM revised */
+  revised: LockableField[];
+  /** Fields left alone because the configuration locks them */
+  locked: LockableField[];
+  /** Copy of the previous configuration, written when the file was updated */
+  backupPath?: string;
+  /** Whether template-generated text was replaced by a full LLM analysis */
+  enriched: boolean;
+}
+
+/**
+ * Lists a configuration's capabilities from its live server, with what the server
+ * reported about itself
+ */
+async function discoverLive(
+  config: Parameters<typeof connectToServer>[0]
+): Promise<{ live: ServerCapabilities; identity: ServerIdentity }> {
+  let client: Client | null = null;
+  try {
+    client = (await connectToServer(config)).client;
+    const live = await discoverCapabilities(client);
+    return { live, identity: { serverInfo: client.getServerVersion(), instructions: client.getInstructions() } };
+  } finally {
+    if (client) {
+      await client.close();
+    }
+  }
+}
+
+/**
+ * Connects to the server a configuration describes and compares its capabilities
+ * with the stored snapshot
+ * @param configPath - Path to the configuration file
+ * @param options - update rewrites the configuration when it has drifted
+ */
+export async function diffConfig(
+  configPath: string,
+  options: { update?: boolean } = {}
+): Promise<ConfigDiff> {
+  const config = await loadConfig(configPath);
+  const { live } = await discoverLive(config);
+
+  const drift = detectDrift(config.capabilities, live);
+  const updated = Boolean(options.update) && hasDrift(drift);
+  if (updated) {
+    await rewriteConfig(configPath, raw => setCapabilities(raw, live));
+  }
+
+  return { drift, live, updated };
+}
+
+/**
+ * Re-discovers a configuration's capabilities and has the LLM revise only the unlocked
+ * generated fields the changes affect, keeping a backup of the previous version
+ * Text generated from templates is replaced by a full LLM analysis even without drift;
+ * in template mode the unlocked fields are regenerated from templates instead
+ * @param configPath - Path to the configuration file
+ * @param options - LLM overrides and template mode; the connection comes from the configuration
+ */
+export async function reanalyzeConfig(
+  configPath: string,
+  options: Pick<AnalyzeOptions, 'llm' | 'template'> = {}
+): Promise<ReanalysisResult> {
+  const config = await loadConfig(configPath);
+  const { live, identity } = await discoverLive(config);
+  const drift = detectDrift(config.capabilities, live);
+
+  const locked = config.locked || [];
+  const enriched = !options.template && config.metadata.generatedBy === 'template';
+  if (!hasDrift(drift) && !enriched) {
+    return { drift, live, updated: false, revised: [], locked, enriched };
+  }
+
+  const fields = LockableFieldSchema.options.filter(field => !locked.includes(field));
+  let revision: LLMRevision = {};
+  if (fields.length > 0 && options.template) {
+    revision = templateAnalysis(live, config.serverPath, identity);
+  } else if (fields.length > 0) {
+    const llmSettings = mergeLLMSettings(config.llm, options.llm);
+    validateProviderEnvironment(llmSettings);
+    const llm = createLLMRuntime(llmSettings);
+    revision = enriched
+      ? await analyzeWithLLM(live, llm)
+      : await reviseWithLLM(config, drift, live, fields, llm);
+  }
+
+  // The LLM may volunteer fields it was not asked for; locked ones are never applied
+  const { expertDescription, systemPrompt } = revision;
+  const revised = fields.filter(field => (field === 'description' ? expertDescription : systemPrompt) !== undefined);
+
+  const backupPath = `${configPath}.bak`;
+  await rewriteConfig(configPath, raw => {
+    setCapabilities(raw, live);
+    if (revised.includes('description')) raw.description = expertDescription;
+    if (revised.includes('systemPrompt')) raw.systemPrompt = systemPrompt;
+    updateMetadata(raw, {
+      ...(revised.length > 0 ? { generatedBy: options.template ? 'template' : 'llm' } : {}),
+      analyzedAt: new Date().toISOString()
+    });
+  }, backupPath);
+
+  return { drift, live, updated: true, revised, locked, backupPath, enriched };
+}
+
+/**
+ * Replaces the capability snapshot and counts in a raw configuration
+ */
+function setCapabilities(raw: Record<string, unknown>, capabilities: ServerCapabilities): void {
+  raw.capabilities = capabilities;
+  updateMetadata(raw, {
+    toolCount: capabilities.tools.length,
+    resourceCount: capabilities.resources.length,
+    promptCount: capabilities.prompts.length
+  });
+}
+
+/**
+ * Merges fields into a raw configuration's metadata
+ */
+function updateMetadata(raw: Record<string, unknown>, fields: Partial<WrapperConfig['metadata']>): void {
+  const metadata = raw.metadata !== null && typeof raw.metadata === 'object' ? raw.metadata : {};
+  raw.metadata = { ...metadata, ...fields };
+}
+
+/**
+ * Edits a configuration file in place, first copying it to backupPath if given
+ * The file is edited as plain JSON so environment references and unknown fields survive
+ */
+async function rewriteConfig(
+  configPath: string,
+  edit: (raw: Record<string, unknown>) => void,
+  backupPath?: string
+): Promise<void> {
+  try {
+    const data = await fs.readFile(configPath, 'utf-8');
+    if (backupPath) {
+      await fs.writeFile(backupPath, data, 'utf-8');
+    }
+
+    const raw: unknown = JSON.parse(data);
+    if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('Configuration must be a JSON object');
+    }
+    edit(raw as Record<string, unknown>);
+    await fs.writeFile(configPath, JSON.stringify(raw, null, 2), 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to update configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
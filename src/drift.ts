@@ -0,0 +1,168 @@
+/**
+ * Capability drift detection
+ * Compares a wrapped server's live tools, resources and prompts with the snapshot
+ * stored in its configuration, and watches for the server's list_changed notifications
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  PromptListChangedNotificationSchema,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  ResourceTemplate,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { isDeepStrictEqual } from 'util';
+import { ServerCapabilities } from './types.js';
+import { listWrappedResources, listWrappedResourceTemplates, listWrappedPrompts } from './resources.js';
+
+export type CapabilityKind = keyof ServerCapabilities;
+
+export const CAPABILITY_KINDS: CapabilityKind[] = ['tools', 'resources', 'resourceTemplates', 'prompts'];
+
+/**
+ * Capability lists a server can announce changes to; resource templates change with resources
+ */
+export type ListChangedKind = Exclude<CapabilityKind, 'resourceTemplates'>;
+
+/**
+ * One tool, resource, resource template or prompt
+ */
+export type CapabilityEntry<K extends CapabilityKind = CapabilityKind> = ServerCapabilities[K][number];
+
+/**
+ * An entry present in both versions of a list, with the paths of the fields that differ
+ * (e.g. inputSchema.properties.path)
+ */
+export interface ChangedEntry {
+  key: string;
+  fields: string[];
+}
+
+/**
+ * Entries added, removed or changed in one capability list
+ */
+export interface ListDrift {
+  added: string[];
+  removed: string[];
+  changed: ChangedEntry[];
+}
+
+export type CapabilityDrift = Record<CapabilityKind, ListDrift>;
+
+/**
+ * Identifies an entry within its list: resources by URI, resource templates by URI template,
+ * tools and prompts by name
+ */
+export function entryKey(kind: CapabilityKind, entry: CapabilityEntry): string {
+  switch (kind) {
+    case 'resources':
+      return (entry as Resource).uri;
+    case 'resourceTemplates':
+      return (entry as ResourceTemplate).uriTemplate;
+    default:
+      return entry.name;
+  }
+}
+
+/**
+ * Lists the dotted paths at which two values differ, descending into plain objects
+ */
+function changedFields(before: unknown, after: unknown, prefix = ''): string[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (!isObject(before) || !isObject(after)) {
+    return isDeepStrictEqual(before, after) ? [] : [prefix];
+  }
+
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return keys.flatMap(key => changedFields(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+}
+
+/**
+ * Compares two versions of a capability list
+ */
+function compareLists<K extends CapabilityKind>(
+  kind: K,
+  before: CapabilityEntry<K>[],
+  after: CapabilityEntry<K>[]
+): ListDrift {
+  const previous = new Map(before.map(entry => [entryKey(kind, entry), entry]));
+  const current = new Map(after.map(entry => [entryKey(kind, entry), entry]));
+
+  return {
+    added: [...current.keys()].filter(key => !previous.has(key)),
+    removed: [...previous.keys()].filter(key => !current.has(key)),
+    changed: [...current.keys()]
+      .filter(key => previous.has(key))
+      .map(key => ({ key, fields: changedFields(previous.get(key), current.get(key)) }))
+      .filter(entry => entry.fields.length > 0)
+  };
+}
+
+/**
+ * Lists everything the wrapped server currently offers
+ */
+export async function listCapabilities(client: Client): Promise<ServerCapabilities> {
+  const [tools, resources, resourceTemplates, prompts] = await Promise.all([
+    client.listTools(),
+    listWrappedResources(client),
+    listWrappedResourceTemplates(client),
+    listWrappedPrompts(client)
+  ]);
+
+  return { tools: tools.tools || [], resources, resourceTemplates, prompts };
+}
+
+/**
+ * Compares a stored capability snapshot with a live listing
+ */
+export function detectDrift(stored: ServerCapabilities, live: ServerCapabilities): CapabilityDrift {
+  return {
+    tools: compareLists('tools', stored.tools, live.tools),
+    resources: compareLists('resources', stored.resources, live.resources),
+    resourceTemplates: compareLists('resourceTemplates', stored.resourceTemplates, live.resourceTemplates),
+    prompts: compareLists('prompts', stored.prompts, live.prompts)
+  };
+}
+
+/**
+ * Whether a list has any added, removed or changed entries
+ */
+export function hasListDrift(drift: ListDrift): boolean {
+  return drift.added.length > 0 || drift.removed.length > 0 || drift.changed.length > 0;
+}
+
+/**
+ * Whether any capability list has drifted
+ */
+export function hasDrift(drift: CapabilityDrift): boolean {
+  return CAPABILITY_KINDS.some(kind => hasListDrift(drift[kind]));
+}
+
+/**
+ * Summarizes drift as one line per drifted capability list
+ */
+export function describeDrift(drift: CapabilityDrift): string[] {
+  return CAPABILITY_KINDS
+    .filter(kind => hasListDrift(drift[kind]))
+    .map(kind => {
+      const { added, removed, changed } = drift[kind];
+      const parts = [
+        added.length > 0 ? `added ${added.join(', ')}` : '',
+        removed.length > 0 ? `removed ${removed.join(', ')}` : '',
+        changed.length > 0 ? `changed ${changed.map(entry => `${entry.key} (${entry.fields.join(', ')})`).join(', ')}` : ''
+      ].filter(Boolean);
+      return `${kind}: ${parts.join('; ')}`;
+    });
+}
+
+/**
+ * Calls onChange whenever the wrapped server reports that a capability list changed
+ * Replaces any list_changed handlers already registered on the client
+ */
+export function watchListChanges(client: Client, onChange: (kind: ListChangedKind) => void): void {
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async () => onChange('tools'));
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => onChange('resources'));
+  client.setNotificationHandler(PromptListChangedNotificationSchema, async () => onChange('prompts'));
+}
@@ -0,0 +1,270 @@
+/**
+ * Server inspection
+ * Connects to an MCP server and reports what it offers, without an LLM or a configuration
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectionTarget, InspectFormat, ServerCapabilities } from './types.js';
+import { connectToServer } from './analyzer.js';
+import { listCapabilities } from './drift.js';
+
+/**
+ * Rough number of characters per token in JSON tool definitions
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Longest description shown in a table cell
+ */
+const TABLE_DESCRIPTION_LENGTH = 60;
+
+type Tool = ServerCapabilities['tools'][number];
+
+/**
+ * What an MCP server reported about itself and everything it offers
+ */
+export interface InspectionReport {
+  server?: Implementation;
+  instructions?: string;
+  capabilities: ServerCapabilities;
+  /** Estimated tokens each tool definition adds to a host's context, by tool name */
+  toolTokens: Record<string, number>;
+  totalToolTokens: number;
+}
+
+/**
+ * Estimates how many tokens a value takes up in an LLM context when sent as JSON
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Connects to a server and lists its info, instructions and capabilities
+ */
+export async function inspectServer(target: ConnectionTarget): Promise<InspectionReport> {
+  let client: Client | null = null;
+  try {
+    client = (await connectToServer(target)).client;
+    const capabilities = await listCapabilities(client);
+
+    const toolTokens = Object.fromEntries(capabilities.tools.map(tool => [tool.name, estimateTokens(tool)]));
+    return {
+      server: client.getServerVersion(),
+      instructions: client.getInstructions(),
+      capabilities,
+      toolTokens,
+      totalToolTokens: Object.values(toolTokens).reduce((sum, tokens) => sum + tokens, 0)
+    };
+  } finally {
+    if (client) {
+      await client.close();
+    }
+  }
+}
+
+/**
+ * Summarizes a tool's parameters as "name: type", with optional ones marked "?"
+ */
+function describeParameters(tool: Tool): string {
+  const required = new Set(tool.inputSchema.required || []);
+  return Object.entries(tool.inputSchema.properties || {})
+    .map(([name, schema]) => {
+      const type = (schema as { type?: unknown }).type;
+      return `${name}${required.has(name) ? '' : '?'}: ${Array.isArray(type) ? type.join(' | ') : type ?? 'any'}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Lists the behaviour hints a tool is annotated with
+ */
+function describeAnnotations(tool: Tool): string {
+  const annotations = tool.annotations || {};
+  return [
+    annotations.readOnlyHint === true ? 'read-only' : '',
+    annotations.destructiveHint === true ? 'destructive' : '',
+    annotations.idempotentHint === true ? 'idempotent' : '',
+    annotations.openWorldHint === true ? 'open-world' : ''
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Shortens text to one line of at most length characters
+ */
+function truncate(text: string | undefined, length: number): string {
+  const line = (text || '').replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/**
+ * Names the server as "name version (title)"
+ */
+function describeServer(server: Implementation | undefined): string {
+  if (!server) {
+    return 'unknown server';
+  }
+  return `${server.name} ${server.version}${server.title ? ` (${server.title})` : ''}`;
+}
+
+/**
+ * Lays out rows in columns padded to the widest cell
+ */
+function renderTable(headers: string[], rows: string[][]): string[] {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => row[column].length)));
+  const format = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [format(headers), format(widths.map(width => '-'.repeat(width))), ...rows.map(format)];
+}
+
+/**
+ * Renders a report as plain-text tables for the terminal
+ */
+function renderText(report: InspectionReport): string {
+  const { tools, resources, resourceTemplates, prompts } = report.capabilities;
+  const lines = [`Server: ${describeServer(report.server)}`];
+  if (report.instructions) {
+    lines.push('Instructions:', ...report.instructions.trim().split('\n').map(line => `  ${line}`));
+  }
+
+  const section = (title: string, headers: string[], rows: string[][]) => {
+    lines.push('');
+    if (rows.length === 0) {
+      lines.push(`${title}: none`);
+      return;
+    }
+    lines.push(`${title}:`, ...renderTable(headers, rows));
+  };
+
+  section(
+    `Tools (${tools.length}, ~${report.totalToolTokens} tokens)`,
+    ['NAME', 'TOKENS', 'HINTS', 'PARAMETERS', 'DESCRIPTION'],
+    tools.map(tool => [
+      tool.name,
+      String(report.toolTokens[tool.name]),
+      describeAnnotations(tool),
+      describeParameters(tool),
+      truncate(tool.description, TABLE_DESCRIPTION_LENGTH)
+    ])
+  );
+  section(
+    `Resources (${resources.length})`,
+    ['URI', 'NAME', 'MIME TYPE', 'DESCRIPTION'],
+    resources.map(resource => [
+      resource.uri,
+      resource.name,
+      resource.mimeType || '',
+      truncate(resource.description, TABLE_DESCRIPTION_LENGTH)
+    ])
+  );
+  section(
+    `Resource templates (${resourceTemplates.length})`,
+    ['URI TEMPLATE', 'NAME', 'MIME TYPE', 'DESCRIPTION'],
+    resourceTemplates.map(template => [
+      template.uriTemplate,
+      template.name,
+      template.mimeType || '',
+      truncate(template.description, TABLE_DESCRIPTION_LENGTH)
+    ])
+  );
+  section(
+    `Prompts (${prompts.length})`,
+    ['NAME', 'ARGUMENTS', 'DESCRIPTION'],
+    prompts.map(prompt => [
+      prompt.name,
+      (prompt.arguments || []).map(arg => `${arg.name}${arg.required ? '' : '?'}`).join(', '),
+      truncate(prompt.description, TABLE_DESCRIPTION_LENGTH)
+    ])
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Escapes text for a Markdown table cell
+ */
+function markdownCell(text: string | undefined): string {
+  return (text || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Renders a Markdown table, or a note when there are no rows
+ */
+function markdownTable(headers: string[], rows: string[][]): string[] {
+  if (rows.length === 0) {
+    return ['None.'];
+  }
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+  ];
+}
+
+/**
+ * Renders a report as a Markdown document, with each tool's full input schema
+ */
+function renderMarkdown(report: InspectionReport): string {
+  const { tools, resources, resourceTemplates, prompts } = report.capabilities;
+  const lines = [`# ${describeServer(report.server)}`, ''];
+  if (report.instructions) {
+    lines.push('## Instructions', '', report.instructions.trim(), '');
+  }
+
+  lines.push(`## Tools (${tools.length}, ~${report.totalToolTokens} tokens)`, '');
+  if (tools.length === 0) {
+    lines.push('None.', '');
+  }
+  for (const tool of tools) {
+    const hints = describeAnnotations(tool);
+    lines.push(
+      `### ${tool.name}`,
+      '',
+      ...(tool.description ? [tool.description.trim(), ''] : []),
+      `- Estimated tokens: ${report.toolTokens[tool.name]}`,
+      ...(hints ? [`- Hints: ${hints}`] : []),
+      '',
+      '```json',
+      JSON.stringify(tool.inputSchema, null, 2),
+      '```',
+      ''
+    );
+  }
+
+  lines.push(
+    `## Resources (${resources.length})`,
+    '',
+    ...markdownTable(['URI', 'Name', 'MIME type', 'Description'], resources.map(resource =>
+      [resource.uri, resource.name, resource.mimeType || '', resource.description || ''])),
+    '',
+    `## Resource Templates (${resourceTemplates.length})`,
+    '',
+    ...markdownTable(['URI template', 'Name', 'MIME type', 'Description'], resourceTemplates.map(template =>
+      [template.uriTemplate, template.name, template.mimeType || '', template.description || ''])),
+    '',
+    `## Prompts (${prompts.length})`,
+    '',
+    ...markdownTable(['Name', 'Arguments', 'Description'], prompts.map(prompt => [
+      prompt.name,
+      (prompt.arguments || []).map(arg => `${arg.name}${arg.required ? '' : '?'}`).join(', '),
+      prompt.description || ''
+    ]))
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a report as a table, JSON or Markdown
+ */
+export function renderInspection(report: InspectionReport, format: InspectFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'markdown':
+      return renderMarkdown(report);
+    default:
+      return renderText(report);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Process lifecycle management for the wrapper server
+ * Shuts down cleanly on signals, stdin EOF and fatal errors: drains in-flight
+ * requests, aborts pending LLM calls and closes exposed and wrapped servers
+ */
+
+export const DEFAULT_DRAIN_TIMEOUT_MS = 5000;
+
+/**
+ * Shutdown coordinator for a wrapper process
+ */
+export interface Lifecycle {
+  /** Aborted once in-flight requests have had their drain period */
+  readonly signal: AbortSignal;
+  isShuttingDown(): boolean;
+  /** Registers a cleanup step; steps run in reverse registration order */
+  onShutdown(name: string, cleanup: () => Promise<void> | void): void;
+  /** Tracks an in-flight request so shutdown can wait for it */
+  track<T>(operation: Promise<T>): Promise<T>;
+  shutdown(reason: string, exitCode?: number): Promise<void>;
+  /** Installs signal, stdin and fatal error handlers on the current process */
+  installProcessHandlers(options: { watchStdin: boolean }): void;
+}
+
+/**
+ * Creates a lifecycle manager
+ */
+export function createLifecycle(
+  drainTimeoutMs: number = DEFAULT_DRAIN_TIMEOUT_MS,
+  exit: (code: number) => void = code => process.exit(code)
+): Lifecycle {
+  const controller = new AbortController();
+  const cleanups: Array<{ name: string; cleanup: () => Promise<void> | void }> = [];
+  const inFlight = new Set<Promise<unknown>>();
+  let shutdownPromise: Promise<void> | null = null;
+
+  const drain = async () => {
+    if (inFlight.size === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled([...inFlight]),
+      new Promise(resolve => {
+        timer = setTimeout(resolve, drainTimeoutMs);
+      })
+    ]);
+    clearTimeout(timer);
+  };
+
+  const runShutdown = async (reason: string, exitCode: number) => {
+    console.error(`Shutting down (${reason})...`);
+
+    await drain();
+    controller.abort(new Error(`Wrapper is shutting down (${reason})`));
+
+    for (const { name, cleanup } of [...cleanups].reverse()) {
+      try {
+        await cleanup();
+      } catch (error) {
+        console.error(`Error during shutdown of ${name}:`, error);
+      }
+    }
+
+    exit(exitCode);
+  };
+
+  const lifecycle: Lifecycle = {
+    signal: controller.signal,
+
+    isShuttingDown() {
+      return shutdownPromise !== null;
+    },
+
+    onShutdown(name, cleanup) {
+      cleanups.push({ name, cleanup });
+    },
+
+    track(operation) {
+      inFlight.add(operation);
+      const untrack = () => {
+        inFlight.delete(operation);
+      };
+      operation.then(untrack, untrack);
+      return operation;
+    },
+
+    shutdown(reason, exitCode = 0) {
+      if (!shutdownPromise) {
+        shutdownPromise = runShutdown(reason, exitCode);
+      }
+      return shutdownPromise;
+    },
+
+    installProcessHandlers({ watchStdin }) {
+      for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+        process.once(signal, () => void lifecycle.shutdown(signal));
+      }
+
+      // The MCP host closing our stdin means it is gone for good
+      if (watchStdin) {
+        process.stdin.once('end', () => void lifecycle.shutdown('stdin closed'));
+      }
+
+      process.once('uncaughtException', error => {
+        console.error('Uncaught exception:', error);
+        void lifecycle.shutdown('uncaught exception', 1);
+      });
+      process.once('unhandledRejection', reason => {
+        console.error('Unhandled rejection:', reason);
+        void lifecycle.shutdown('unhandled rejection', 1);
+      });
+    }
+  };
+
+  return lifecycle;
+}
@@ -0,0 +1,123 @@
+/**
+ * Configuration schema migrations
+ * Upgrades configuration files written by older versions step by step, so saved
+ * configurations keep loading after the format changes
+ */
+
+import * as fs from 'fs/promises';
+import { WrapperConfigSchema } from './types.js';
+import { formatZodError } from './structured.js';
+
+/**
+ * Upgrades a raw configuration from one schema version to the next
+ */
+interface Migration {
+  description: string;
+  migrate(config: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Migrations in order; the one at index N upgrades version N to N + 1
+ * Configurations written before versioning are version 0
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    description: 'Add schemaVersion',
+    migrate: config => config
+  },
+  {
+    description: 'Add resource templates and default tool input schemas',
+    migrate: config => {
+      const capabilities = config.capabilities;
+      if (capabilities === null || typeof capabilities !== 'object' || Array.isArray(capabilities)) {
+        return config;
+      }
+
+      const { tools, resourceTemplates, ...rest } = capabilities as Record<string, unknown>;
+      return {
+        ...config,
+        capabilities: {
+          ...rest,
+          tools: Array.isArray(tools)
+            ? tools.map(tool => tool && typeof tool === 'object' && !('inputSchema' in tool)
+              ? { ...tool, inputSchema: { type: 'object' } }
+              : tool)
+            : tools,
+          resourceTemplates: resourceTemplates ?? []
+        }
+      };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Outcome of migrating a configuration
+ */
+export interface MigrationResult {
+  config: Record<string, unknown>;
+  fromVersion: number;
+  /** Descriptions of the migrations that were applied, in order */
+  applied: string[];
+}
+
+/**
+ * Reads the schema version of a raw configuration
+ */
+export function readSchemaVersion(config: Record<string, unknown>): number {
+  const version = config.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid schemaVersion: ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Upgrades a raw configuration to the current schema version
+ */
+export function migrateConfig(raw: unknown): MigrationResult {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Configuration must be a JSON object');
+  }
+
+  let config = raw as Record<string, unknown>;
+  const fromVersion = readSchemaVersion(config);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Configuration schema version ${fromVersion} is newer than the supported version ${CURRENT_SCHEMA_VERSION}; upgrade mcp-context-saver`);
+  }
+
+  const applied: string[] = [];
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    config = { ...migration.migrate(config), schemaVersion: version + 1 };
+    applied.push(migration.description);
+  }
+
+  return { config, fromVersion, applied };
+}
+
+/**
+ * Rewrites a configuration file in the current schema version
+ * The file is only written if it needed migrating and the result is a valid configuration
+ */
+export async function migrateConfigFile(configPath: string): Promise<MigrationResult> {
+  try {
+    const result = migrateConfig(JSON.parse(await fs.readFile(configPath, 'utf-8')));
+    if (result.applied.length === 0) {
+      return result;
+    }
+
+    const validation = WrapperConfigSchema.safeParse(result.config);
+    if (!validation.success) {
+      throw new Error(formatZodError(validation.error));
+    }
+
+    // Keep schemaVersion first so the version is visible at the top of the file
+    const { schemaVersion, ...rest } = result.config;
+    await fs.writeFile(configPath, JSON.stringify({ schemaVersion, ...rest }, null, 2), 'utf-8');
+    return result;
+  } catch (error) {
+    throw new Error(`Failed to migrate configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
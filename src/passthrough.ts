@@ -0,0 +1,46 @@
+/**
+ * Raw tool passthrough
+ * Selects wrapped tools to re-export directly, with their original input schemas,
+ * alongside the expert tool
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolFilter } from './types.js';
+
+/**
+ * Checks a name against a glob pattern where * matches any run of characters
+ * and ? matches a single character
+ */
+export function matchesGlob(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Checks whether a tool passes an allowlist/denylist filter
+ * A missing allowlist allows every tool; the denylist always wins
+ */
+export function isToolSelected(name: string, filter: ToolFilter): boolean {
+  const allowed = filter.allow === undefined || filter.allow.some(pattern => matchesGlob(name, pattern));
+  const denied = (filter.deny || []).some(pattern => matchesGlob(name, pattern));
+  return allowed && !denied;
+}
+
+/**
+ * Returns the wrapped tools that should be exposed directly
+ */
+export function selectPassthroughTools(tools: Tool[], filter: ToolFilter | undefined): Tool[] {
+  if (!filter) {
+    return [];
+  }
+
+  return tools.filter(tool => isToolSelected(tool.name, filter));
+}
@@ -0,0 +1,78 @@
+/**
+ * Plan storage for plan mode
+ * Keeps validated tool-call plans so a caller can approve one and execute it later by ID
+ */
+
+import { randomUUID } from 'crypto';
+import { ToolCallPlan } from './types.js';
+
+export const DEFAULT_PLAN_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * A plan awaiting approval
+ */
+export interface StoredPlan {
+  id: string;
+  expert: string;
+  query: string;
+  toolCalls: ToolCallPlan['toolCalls'];
+  explanation?: string;
+  /** Whether the LLM expected to finish after these calls; if not, execution continues planning */
+  done?: boolean;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * In-memory plan store
+ */
+export interface PlanStore {
+  save(plan: Pick<StoredPlan, 'expert' | 'query' | 'toolCalls' | 'explanation' | 'done'>): StoredPlan;
+  /** Returns a plan without consuming it */
+  get(id: string): StoredPlan | undefined;
+  /** Returns and removes a plan, so each plan runs at most once */
+  take(id: string): StoredPlan | undefined;
+}
+
+/**
+ * Creates a plan store whose plans expire after ttlMs
+ */
+export function createPlanStore(ttlMs: number = DEFAULT_PLAN_TTL_MS): PlanStore {
+  const plans = new Map<string, StoredPlan>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [id, plan] of plans) {
+      if (Date.parse(plan.expiresAt) <= now) {
+        plans.delete(id);
+      }
+    }
+  };
+
+  return {
+    save(plan) {
+      prune();
+      const createdAt = new Date();
+      const stored: StoredPlan = {
+        ...plan,
+        id: randomUUID(),
+        createdAt: createdAt.toISOString(),
+        expiresAt: new Date(createdAt.getTime() + ttlMs).toISOString()
+      };
+      plans.set(stored.id, stored);
+      return stored;
+    },
+
+    get(id) {
+      prune();
+      return plans.get(id);
+    },
+
+    take(id) {
+      prune();
+      const plan = plans.get(id);
+      plans.delete(id);
+      return plan;
+    }
+  };
+}
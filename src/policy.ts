@@ -0,0 +1,116 @@
+/**
+ * Tool safety policy
+ * Decides whether execute mode may call a tool, and proposes a default
+ * classification from MCP tool annotations during analysis
+ */
+
+import { matchesGlob } from './passthrough.js';
+import { GET_PROMPT_TOOL, READ_RESOURCE_TOOL } from './resources.js';
+import { PolicyAction, ToolPolicy } from './types.js';
+
+/**
+ * Tool names that suggest a destructive operation when a tool has no annotations
+ */
+const DESTRUCTIVE_NAME_PATTERN = /(^|[_\-.])(delete|remove|drop|destroy|purge|truncate|kill|reset|wipe)/i;
+
+/**
+ * Words in a tool name that mark it as only reading data
+ */
+const READ_NAME_WORDS = new Set([
+  'get', 'list', 'read', 'search', 'find', 'fetch', 'query', 'describe', 'show', 'view',
+  'lookup', 'count', 'check', 'inspect', 'browse', 'status', 'info', 'ping', 'health'
+]);
+
+/**
+ * Words in a tool name that mark it as changing something, even next to a read word
+ * (e.g. get_or_create, search_and_replace)
+ */
+const WRITE_NAME_WORDS = new Set([
+  'write', 'create', 'update', 'set', 'send', 'exec', 'execute', 'run', 'move', 'rename',
+  'insert', 'post', 'put', 'patch', 'add', 'edit', 'modify', 'replace', 'save', 'upload',
+  'merge', 'push', 'commit', 'apply', 'install', 'start', 'stop', 'restart'
+]);
+
+/**
+ * Splits a tool name into lowercase words at separators and camelCase boundaries
+ */
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a tool name clearly reads, such as list_files or getUser
+ */
+function hasReadOnlyName(name: string): boolean {
+  const words = nameWords(name);
+  return words.some(word => READ_NAME_WORDS.has(word)) && !words.some(word => WRITE_NAME_WORDS.has(word));
+}
+
+/**
+ * Tool shape needed for classification
+ */
+export interface ClassifiableTool {
+  name: string;
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
+}
+
+/**
+ * Resolves the policy action for a tool; without a policy every tool is allowed
+ */
+export function resolveToolPolicy(name: string, policy: ToolPolicy | undefined): PolicyAction {
+  if (!policy) {
+    return 'allow';
+  }
+
+  const matches = (patterns: string[] | undefined) =>
+    (patterns || []).some(pattern => matchesGlob(name, pattern));
+
+  if (matches(policy.deny)) return 'deny';
+  if (matches(policy.confirm)) return 'confirm';
+  if (matches(policy.allow)) return 'allow';
+  return policy.default || 'allow';
+}
+
+/**
+ * Classifies a tool as safe to call freely or as needing confirmation
+ * Annotations win when present; otherwise only tools whose names clearly read are
+ * treated as safe
+ */
+export function isMutatingTool(tool: ClassifiableTool): boolean {
+  const annotations = tool.annotations;
+
+  if (annotations?.readOnlyHint === true) {
+    return false;
+  }
+
+  // destructiveHint only says whether a write is destructive, not whether the tool writes,
+  // so any annotated tool that is not read-only is mutating
+  if (annotations?.readOnlyHint !== undefined || annotations?.destructiveHint !== undefined) {
+    return true;
+  }
+
+  return DESTRUCTIVE_NAME_PATTERN.test(tool.name) || !hasReadOnlyName(tool.name);
+}
+
+/**
+ * Proposes a policy that allows read-only tools, resource reads and prompt renders, and
+ * requires confirmation for mutating tools and for tools the server adds after analysis
+ */
+export function proposePolicy(tools: ClassifiableTool[]): ToolPolicy {
+  return {
+    allow: [
+      ...tools.filter(tool => !isMutatingTool(tool)).map(tool => tool.name),
+      READ_RESOURCE_TOOL,
+      GET_PROMPT_TOOL
+    ],
+    confirm: tools.filter(tool => isMutatingTool(tool)).map(tool => tool.name),
+    default: 'confirm'
+  };
+}
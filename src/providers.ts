@@ -0,0 +1,178 @@
+/**
+ * LLM provider layer
+ * Resolves provider settings into language models usable by the analyzer and wrapper
+ */
+
+import { LanguageModel } from 'ai';
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import { anthropic, createAnthropic } from '@ai-sdk/anthropic';
+import { LLMSettings } from './types.js';
+
+/**
+ * Default model for each provider
+ */
+const DEFAULT_MODELS: Record<LLMSettings['provider'], string | undefined> = {
+  'openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest',
+  'openai-compatible': undefined,
+  'scripted': 'scripted'
+};
+
+/**
+ * Environment variable holding the API key for each provider
+ */
+const DEFAULT_API_KEY_ENV: Record<LLMSettings['provider'], string | undefined> = {
+  'openai': 'OPENAI_API_KEY',
+  'anthropic': 'ANTHROPIC_API_KEY',
+  'openai-compatible': undefined,
+  'scripted': undefined
+};
+
+export const DEFAULT_TEMPERATURE = 0.3;
+
+/**
+ * Language model paired with its sampling settings
+ */
+export interface LLMRuntime {
+  model: LanguageModel;
+  temperature: number;
+  /** Cancels in-flight generation, e.g. when the wrapper shuts down */
+  abortSignal?: AbortSignal;
+}
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'openai'
+};
+
+/**
+ * Merges provider settings, later sources taking precedence over earlier ones
+ */
+export function mergeLLMSettings(
+  ...sources: Array<Partial<LLMSettings> | undefined>
+): LLMSettings {
+  const merged: Partial<LLMSettings> = {};
+
+  for (const source of sources) {
+    if (!source) continue;
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  return { ...DEFAULT_LLM_SETTINGS, ...merged };
+}
+
+/**
+ * Returns the model name to use for the given settings
+ */
+export function resolveModelName(settings: LLMSettings): string {
+  const model = settings.model || DEFAULT_MODELS[settings.provider];
+  if (!model) {
+    throw new Error(`A model name is required for the ${settings.provider} provider`);
+  }
+  return model;
+}
+
+/**
+ * Returns the sampling temperature to use for the given settings
+ */
+export function resolveTemperature(settings: LLMSettings): number {
+  return settings.temperature ?? DEFAULT_TEMPERATURE;
+}
+
+/**
+ * Validates that the environment provides what the selected provider needs
+ */
+export function validateProviderEnvironment(settings: LLMSettings): void {
+  const apiKeyEnv = settings.apiKeyEnv || DEFAULT_API_KEY_ENV[settings.provider];
+
+  if (settings.provider === 'openai-compatible' && !settings.baseURL) {
+    throw new Error('A base URL is required for the openai-compatible provider');
+  }
+
+  if (apiKeyEnv && !process.env[apiKeyEnv]) {
+    throw new Error(`${apiKeyEnv} environment variable is required`);
+  }
+}
+
+/**
+ * Creates a deterministic model that replays scripted responses in order.
+ * Once the script is exhausted the last response is repeated.
+ */
+export function createScriptedModel(responses: string[]): LanguageModel {
+  let index = 0;
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'scripted',
+    modelId: 'scripted',
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      if (responses.length === 0) {
+        throw new Error('Scripted provider has no responses configured');
+      }
+
+      const text = responses[Math.min(index, responses.length - 1)];
+      index++;
+
+      return {
+        text,
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    },
+    async doStream() {
+      throw new Error('Scripted provider does not support streaming');
+    }
+  };
+}
+
+/**
+ * Creates the language model described by the given settings
+ */
+export function createLanguageModel(settings: LLMSettings): LanguageModel {
+  const apiKeyEnv = settings.apiKeyEnv || DEFAULT_API_KEY_ENV[settings.provider];
+  const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+
+  switch (settings.provider) {
+    case 'openai':
+      if (!settings.baseURL && !settings.apiKeyEnv) {
+        return openai(resolveModelName(settings));
+      }
+      return createOpenAI({ baseURL: settings.baseURL, apiKey })(resolveModelName(settings));
+
+    case 'anthropic':
+      if (!settings.baseURL && !settings.apiKeyEnv) {
+        return anthropic(resolveModelName(settings));
+      }
+      return createAnthropic({ baseURL: settings.baseURL, apiKey })(resolveModelName(settings));
+
+    case 'openai-compatible':
+      return createOpenAI({
+        name: 'openai-compatible',
+        baseURL: settings.baseURL,
+        // Local endpoints often ignore the key, but the client requires one
+        apiKey: apiKey || 'not-needed',
+        compatibility: 'compatible'
+      })(resolveModelName(settings));
+
+    case 'scripted':
+      return createScriptedModel(settings.responses || []);
+
+    default:
+      throw new Error(`Unknown LLM provider: ${(settings as LLMSettings).provider}`);
+  }
+}
+
+/**
+ * Creates the language model and sampling settings for the given settings
+ */
+export function createLLMRuntime(settings: LLMSettings): LLMRuntime {
+  return {
+    model: createLanguageModel(settings),
+    temperature: resolveTemperature(settings)
+  };
+}
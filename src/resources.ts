@@ -0,0 +1,209 @@
+/**
+ * Resource and prompt access for wrapped servers
+ * Lets execute mode plans read resources and render prompts, and lets the exposed
+ * server pass resource and prompt requests through to the wrapped servers
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  Prompt,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/types.js';
+import { SupervisedConnection } from './supervisor.js';
+import { ToolDefinition } from './types.js';
+
+/**
+ * Plan step names for reading resources and rendering prompts
+ * Slashes keep them from colliding with the wrapped server's tool names
+ */
+export const READ_RESOURCE_TOOL = 'resources/read';
+export const GET_PROMPT_TOOL = 'prompts/get';
+
+/**
+ * Outcome of a single plan step against the wrapped server
+ */
+export interface OperationResult {
+  content: unknown;
+  isError?: boolean;
+}
+
+/**
+ * Lists the wrapped server's resources, or none if it does not support them
+ */
+export async function listWrappedResources(client: Client): Promise<Resource[]> {
+  try {
+    return (await client.listResources()).resources || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists the wrapped server's resource templates, or none if it does not support them
+ */
+export async function listWrappedResourceTemplates(client: Client): Promise<ResourceTemplate[]> {
+  try {
+    return (await client.listResourceTemplates()).resourceTemplates || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists the wrapped server's prompts, or none if it does not support them
+ */
+export async function listWrappedPrompts(client: Client): Promise<Prompt[]> {
+  try {
+    return (await client.listPrompts()).prompts || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Describes resource reads and prompt rendering as tools the planner can call
+ */
+export function createResourceTools(
+  resources: Resource[],
+  templates: ResourceTemplate[],
+  prompts: Prompt[]
+): ToolDefinition[] {
+  const tools: ToolDefinition[] = [];
+
+  if (resources.length > 0 || templates.length > 0) {
+    const listing = [
+      ...resources.map(resource => `- ${resource.uri} (${resource.name})${resource.description ? `: ${resource.description}` : ''}`),
+      ...templates.map(template => `- ${template.uriTemplate} (${template.name}, template)${template.description ? `: ${template.description}` : ''}`)
+    ].join('\n');
+
+    tools.push({
+      name: READ_RESOURCE_TOOL,
+      description: `Read a resource from the wrapped server. Available resources:\n${listing}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uri: { type: 'string', description: 'URI of the resource to read' }
+        },
+        required: ['uri']
+      }
+    });
+  }
+
+  if (prompts.length > 0) {
+    const listing = prompts.map(prompt => {
+      const args = (prompt.arguments || [])
+        .map(arg => `${arg.name}${arg.required ? '' : '?'}`)
+        .join(', ');
+      return `- ${prompt.name}(${args})${prompt.description ? `: ${prompt.description}` : ''}`;
+    }).join('\n');
+
+    tools.push({
+      name: GET_PROMPT_TOOL,
+      description: `Render a prompt template from the wrapped server. Available prompts:\n${listing}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', enum: prompts.map(prompt => prompt.name) },
+          arguments: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description: 'Prompt arguments as strings'
+          }
+        },
+        required: ['name']
+      }
+    });
+  }
+
+  return tools;
+}
+
+/**
+ * Runs one plan step: a resource read, a prompt render or a wrapped tool call
+ */
+export async function callWrappedOperation(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>,
+  requestOptions?: RequestOptions
+): Promise<OperationResult> {
+  if (name === READ_RESOURCE_TOOL) {
+    const result = await client.readResource({ uri: String(args.uri) }, requestOptions);
+    return { content: result.contents };
+  }
+
+  if (name === GET_PROMPT_TOOL) {
+    const result = await client.getPrompt({
+      name: String(args.name),
+      arguments: args.arguments as Record<string, string> | undefined
+    }, requestOptions);
+    return { content: result.messages };
+  }
+
+  const result = await client.callTool({ name, arguments: args }, undefined, requestOptions);
+  return { content: result.content, isError: Boolean(result.isError) };
+}
+
+/**
+ * Registers resources/* and prompts/* handlers that forward to the given wrapped servers
+ * The server must have been created with the matching capabilities
+ */
+export function registerPassthroughHandlers(
+  server: Server,
+  resourceSources: SupervisedConnection[],
+  promptSources: SupervisedConnection[]
+): void {
+  if (resourceSources.length > 0) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const listings = await Promise.all(resourceSources.map(async source =>
+        listWrappedResources(await source.getClient())));
+      return { resources: listings.flat() };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const listings = await Promise.all(resourceSources.map(async source =>
+        listWrappedResourceTemplates(await source.getClient())));
+      return { resourceTemplates: listings.flat() };
+    });
+
+    // Templated URIs are not listed, so ask each wrapped server in turn
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      let lastError: unknown;
+      for (const source of resourceSources) {
+        try {
+          return await (await source.getClient()).readResource(request.params);
+        } catch (error) {
+          lastError = error;
+        }
+      }
+      throw new Error(`Failed to read resource ${request.params.uri}: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+    });
+  }
+
+  if (promptSources.length > 0) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const listings = await Promise.all(promptSources.map(async source =>
+        listWrappedPrompts(await source.getClient())));
+      return { prompts: listings.flat() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      for (const source of promptSources) {
+        const client = await source.getClient();
+        const prompts = await listWrappedPrompts(client);
+        if (prompts.some(prompt => prompt.name === request.params.name)) {
+          return client.getPrompt(request.params);
+        }
+      }
+      throw new Error(`Unknown prompt: ${request.params.name}`);
+    });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Router expert for wrappers serving several MCP servers
+ * Picks the expert best suited to a query so agents only need one entry point
+ */
+
+import { z } from 'zod';
+import { LLMRuntime } from './providers.js';
+import { generateStructured } from './structured.js';
+import { ToolDefinition } from './types.js';
+
+export const ROUTER_TOOL_NAME = 'router';
+
+/**
+ * Expert chosen by the router
+ */
+const RouteSelectionSchema = z.object({
+  expert: z.string(),
+  reason: z.string().default('')
+});
+
+export type RouteSelection = z.infer<typeof RouteSelectionSchema>;
+
+/**
+ * Creates the router tool definition for the given experts
+ */
+export function createRouterTool(experts: ToolDefinition[]): ToolDefinition {
+  const expertList = experts
+    .map(expert => `- ${expert.name}: ${expert.description}`)
+    .join('\n');
+
+  return {
+    name: ROUTER_TOOL_NAME,
+    description: `Routes a request to the most suitable expert. Available experts:\n${expertList}`,
+    // Every expert accepts the same input, so the router can forward it unchanged
+    inputSchema: experts[0].inputSchema
+  };
+}
+
+/**
+ * Asks the LLM which expert should handle a query
+ */
+export async function selectExpert(
+  query: string,
+  experts: ToolDefinition[],
+  llm: LLMRuntime
+): Promise<RouteSelection> {
+  if (experts.length === 1) {
+    return { expert: experts[0].name, reason: 'Only one expert is available' };
+  }
+
+  const routingPrompt = `
+You are routing a user request to one of several experts, each wrapping a different MCP server.
+
+Experts:
+${experts.map(expert => `- ${expert.name}: ${expert.description}`).join('\n')}
+
+User query: ${query}
+
+Pick the single expert best able to handle the query.
+Respond with a JSON object in this format:
+{
+  "expert": "expert-name",
+  "reason": "Brief reason for the choice"
+}
+
+Respond ONLY with valid JSON.`;
+
+  let selection: RouteSelection;
+  try {
+    ({ value: selection } = await generateStructured(llm, routingPrompt, RouteSelectionSchema));
+  } catch (error) {
+    throw new Error(`Failed to route query: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!experts.some(expert => expert.name === selection.expert)) {
+    throw new Error(`Router selected unknown expert: ${selection.expert}`);
+  }
+
+  return selection;
+}
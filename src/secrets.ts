@@ -0,0 +1,83 @@
+/**
+ * Secret references for wrapped server launch settings
+ * Values such as `${env:GITHUB_TOKEN}` are stored in configurations as-is and
+ * only resolved against the environment when the server is launched
+ */
+
+import { ConnectionTarget } from './types.js';
+
+const PLACEHOLDER_PATTERN = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Header and environment variable names that usually hold credentials
+ */
+const SECRET_NAME_PATTERN = /auth|token|secret|passw(or)?d|key|credential|cookie/i;
+
+/**
+ * Returns a reference to an environment variable suitable for storing in a configuration
+ */
+export function envReference(name: string): string {
+  return `\${env:${name}}`;
+}
+
+/**
+ * Replaces `${env:NAME}` placeholders in a value with environment variables
+ */
+export function resolvePlaceholders(
+  value: string,
+  source: NodeJS.ProcessEnv = process.env
+): string {
+  return value.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const resolved = source[name];
+    if (resolved === undefined) {
+      throw new Error(`Environment variable ${name} is not set (referenced as ${envReference(name)})`);
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Lists the headers and environment variables of a target that look like credentials
+ * written out literally rather than referenced with `${env:NAME}`
+ */
+export function findLiteralSecrets(target: Pick<ConnectionTarget, 'headers' | 'env'>): string[] {
+  const literal = (record: Record<string, string> | undefined, kind: string) =>
+    Object.entries(record || {})
+      .filter(([name, value]) => SECRET_NAME_PATTERN.test(name) && value !== '' && !value.includes('${env:'))
+      .map(([name]) => `${kind} ${name}`);
+
+  return [...literal(target.headers, 'header'), ...literal(target.env, 'environment variable')];
+}
+
+/**
+ * Resolves placeholders in every value of a record
+ */
+function resolveRecord(
+  record: Record<string, string> | undefined,
+  source: NodeJS.ProcessEnv
+): Record<string, string> | undefined {
+  if (!record) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, resolvePlaceholders(value, source)])
+  );
+}
+
+/**
+ * Resolves placeholders throughout a connection target, ready for launch
+ */
+export function resolveConnectionTarget(
+  target: ConnectionTarget,
+  source: NodeJS.ProcessEnv = process.env
+): ConnectionTarget {
+  return {
+    ...target,
+    serverPath: resolvePlaceholders(target.serverPath, source),
+    args: target.args.map(arg => resolvePlaceholders(arg, source)),
+    headers: resolveRecord(target.headers, source),
+    env: resolveRecord(target.env, source),
+    cwd: target.cwd !== undefined ? resolvePlaceholders(target.cwd, source) : undefined
+  };
+}
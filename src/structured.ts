@@ -0,0 +1,138 @@
+/**
+ * Structured LLM output
+ * Extracts JSON from model responses, validates it with Zod and asks the model
+ * to repair responses that do not match before giving up
+ */
+
+import { generateText, CoreMessage } from 'ai';
+import { z } from 'zod';
+import { LLMRuntime } from './providers.js';
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Validated value together with the tokens spent producing it
+ */
+export interface StructuredResult<T> {
+  value: T;
+  tokensUsed: number;
+}
+
+/**
+ * Formats each Zod issue as "path: message"
+ */
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Formats Zod issues as a single human-readable line
+ */
+export function formatZodError(error: z.ZodError): string {
+  return formatZodIssues(error).join('; ');
+}
+
+/**
+ * Finds the end of the balanced JSON value starting at the given index
+ */
+function findJsonEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Extracts a JSON value from an LLM response, tolerating markdown fences and surrounding prose
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const candidates = [trimmed];
+
+  // Prefer fenced blocks, which models use to wrap JSON in otherwise chatty answers
+  for (const match of trimmed.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)) {
+    candidates.push(match[1].trim());
+  }
+
+  const start = trimmed.search(/[{[]/);
+  if (start >= 0) {
+    const end = findJsonEnd(trimmed, start);
+    if (end > start) {
+      candidates.push(trimmed.slice(start, end + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error('No valid JSON found in LLM response');
+}
+
+/**
+ * Generates a response and validates it against a schema, feeding validation
+ * errors back to the model for up to maxRepairs additional attempts
+ */
+export async function generateStructured<T>(
+  llm: LLMRuntime,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<StructuredResult<T>> {
+  const messages: CoreMessage[] = [{ role: 'user', content: prompt }];
+  let tokensUsed = 0;
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await generateText({
+      model: llm.model,
+      messages,
+      temperature: llm.temperature,
+      abortSignal: llm.abortSignal
+    });
+    tokensUsed += response.usage?.totalTokens || 0;
+
+    try {
+      const parsed = schema.safeParse(extractJson(response.text));
+      if (parsed.success) {
+        return { value: parsed.data, tokensUsed };
+      }
+      lastError = formatZodError(parsed.error);
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    messages.push(
+      { role: 'assistant', content: response.text },
+      {
+        role: 'user',
+        content: `Your response could not be used: ${lastError}\nRespond again with ONLY valid JSON in the requested format.`
+      }
+    );
+  }
+
+  throw new Error(`LLM response did not match the expected format after ${maxRepairs + 1} attempts: ${lastError}`);
+}
@@ -0,0 +1,239 @@
+/**
+ * Wrapped server supervision
+ * Keeps the connection to a wrapped server alive: detects exits and closed transports,
+ * restarts with exponential backoff, pings periodically and holds new requests while
+ * the server is coming back
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SupervisionSettings } from './types.js';
+
+export const DEFAULT_SUPERVISION: Required<SupervisionSettings> = {
+  restart: true,
+  maxRestarts: 5,
+  initialBackoffMs: 500,
+  maxBackoffMs: 30000,
+  pingIntervalMs: 30000,
+  pingTimeoutMs: 5000,
+  requestTimeoutMs: 10000
+};
+
+export type BackendState = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+
+/**
+ * Health of a supervised wrapped server
+ */
+export interface BackendHealth {
+  state: BackendState;
+  restarts: number;
+  connectedSince?: string;
+  lastError?: string;
+  lastPingAt?: string;
+  lastPingLatencyMs?: number;
+}
+
+/**
+ * Supervised connection to a wrapped server
+ */
+export interface SupervisedConnection {
+  /** Connects for the first time; rejects if the server cannot be started */
+  start(): Promise<void>;
+  /** Returns the live client, waiting up to requestTimeoutMs while the server restarts */
+  getClient(): Promise<Client>;
+  health(): BackendHealth;
+  close(): Promise<void>;
+}
+
+/**
+ * Request waiting for the server to come back
+ */
+interface Waiter {
+  resolve: (client: Client) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Creates a supervisor around a connect function
+ */
+export function createSupervisor(
+  connect: () => Promise<Client>,
+  settings: SupervisionSettings = {}
+): SupervisedConnection {
+  const options = { ...DEFAULT_SUPERVISION, ...settings };
+
+  let client: Client | null = null;
+  let state: BackendState = 'connecting';
+  let restarts = 0;
+  let consecutiveFailures = 0;
+  let connectedSince: string | undefined;
+  let lastError: string | undefined;
+  let lastPingAt: string | undefined;
+  let lastPingLatencyMs: number | undefined;
+  let restartTimer: NodeJS.Timeout | null = null;
+  let pingTimer: NodeJS.Timeout | null = null;
+  let waiters: Waiter[] = [];
+
+  const settleWaiters = (outcome: Client | Error) => {
+    const pending = waiters;
+    waiters = [];
+    for (const waiter of pending) {
+      clearTimeout(waiter.timer);
+      if (outcome instanceof Error) waiter.reject(outcome);
+      else waiter.resolve(outcome);
+    }
+  };
+
+  const unavailableError = () => new Error(
+    `Wrapped server is unavailable (${state})${lastError ? `: ${lastError}` : ''}`
+  );
+
+  const stopPinging = () => {
+    if (pingTimer) {
+      clearInterval(pingTimer);
+      pingTimer = null;
+    }
+  };
+
+  const ping = async () => {
+    if (!client || state !== 'connected') return;
+
+    const startedAt = Date.now();
+    try {
+      await client.ping({ timeout: options.pingTimeoutMs });
+      lastPingAt = new Date().toISOString();
+      lastPingLatencyMs = Date.now() - startedAt;
+    } catch (error) {
+      lastError = `Ping failed: ${error instanceof Error ? error.message : String(error)}`;
+      // Closing the unresponsive client triggers the normal restart path
+      await client.close().catch(() => undefined);
+    }
+  };
+
+  const scheduleRestart = () => {
+    if (!options.restart || consecutiveFailures > options.maxRestarts) {
+      state = 'failed';
+      settleWaiters(unavailableError());
+      return;
+    }
+
+    state = 'reconnecting';
+    const delay = Math.min(
+      options.initialBackoffMs * 2 ** Math.max(consecutiveFailures - 1, 0),
+      options.maxBackoffMs
+    );
+    restartTimer = setTimeout(() => {
+      restartTimer = null;
+      restarts++;
+      void attemptConnect().catch(() => undefined);
+    }, delay);
+    restartTimer.unref();
+  };
+
+  const handleDisconnect = (disconnected: Client) => {
+    if (disconnected !== client || state === 'closed') return;
+
+    client = null;
+    connectedSince = undefined;
+    consecutiveFailures++;
+    lastError = lastError || 'Wrapped server connection closed';
+    stopPinging();
+    scheduleRestart();
+  };
+
+  const attemptConnect = async (): Promise<void> => {
+    try {
+      const connected = await connect();
+      if (state === 'closed') {
+        await connected.close();
+        return;
+      }
+
+      client = connected;
+      state = 'connected';
+      consecutiveFailures = 0;
+      connectedSince = new Date().toISOString();
+      lastError = undefined;
+      connected.onclose = () => handleDisconnect(connected);
+
+      if (options.pingIntervalMs > 0) {
+        pingTimer = setInterval(() => void ping(), options.pingIntervalMs);
+        pingTimer.unref();
+      }
+
+      settleWaiters(connected);
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (state === 'closed') return;
+
+      consecutiveFailures++;
+      scheduleRestart();
+      throw error;
+    }
+  };
+
+  return {
+    async start() {
+      state = 'connecting';
+      try {
+        await attemptConnect();
+      } catch (error) {
+        // A server that cannot start at all is a configuration problem, not a crash
+        if (restartTimer) clearTimeout(restartTimer);
+        restartTimer = null;
+        state = 'failed';
+        throw error;
+      }
+    },
+
+    async getClient() {
+      if (client && state === 'connected') {
+        return client;
+      }
+
+      if (state !== 'connecting' && state !== 'reconnecting') {
+        throw unavailableError();
+      }
+
+      // Hold the request until the server is back, or fail it cleanly
+      return new Promise<Client>((resolve, reject) => {
+        const waiter: Waiter = {
+          resolve,
+          reject,
+          timer: setTimeout(() => {
+            waiters = waiters.filter(candidate => candidate !== waiter);
+            reject(unavailableError());
+          }, options.requestTimeoutMs)
+        };
+        waiters.push(waiter);
+      });
+    },
+
+    health() {
+      return {
+        state,
+        restarts,
+        connectedSince,
+        lastError,
+        lastPingAt,
+        lastPingLatencyMs
+      };
+    },
+
+    async close() {
+      state = 'closed';
+      stopPinging();
+      if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+      }
+      settleWaiters(new Error('Wrapped server connection is closed'));
+
+      const current = client;
+      client = null;
+      if (current) {
+        await current.close();
+      }
+    }
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Result synthesis for execute mode
+ * Condenses tool outputs into a concise answer and shapes the response by verbosity
+ */
+
+import { generateText } from 'ai';
+import { LLMRuntime } from './providers.js';
+import { formatToolCallRecord } from './agent.js';
+import { AgentResult, Verbosity, WrapperConfig } from './types.js';
+
+export const DEFAULT_VERBOSITY: Verbosity = 'citations';
+export const DEFAULT_MAX_OUTPUT_CHARS = 20000;
+
+/**
+ * Truncates text to a hard size cap, marking how much was dropped
+ */
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const dropped = text.length - maxChars;
+  return `${text.slice(0, maxChars)}\n...[truncated ${dropped} characters]`;
+}
+
+/**
+ * Asks the LLM to turn tool outputs into a concise answer for the calling agent
+ */
+export async function synthesizeAnswer(
+  query: string,
+  result: AgentResult,
+  config: WrapperConfig,
+  llm: LLMRuntime
+): Promise<string> {
+  const synthesisPrompt = `
+${config.systemPrompt}
+
+User query: ${query}
+
+The following tool calls were made to answer the query:
+${result.results.map(formatToolCallRecord).join('\n')}
+
+Write a concise answer to the user query based only on these results.
+Include the specific values the user asked for, mention failures that affect the answer,
+and leave out everything else. Respond with plain text, not JSON.`;
+
+  const response = await generateText({
+    model: llm.model,
+    prompt: synthesisPrompt,
+    temperature: llm.temperature,
+    abortSignal: llm.abortSignal
+  });
+
+  return response.text.trim();
+}
+
+/**
+ * Shapes an execute mode result according to the requested verbosity
+ */
+export function formatExecuteResult(result: AgentResult, verbosity: Verbosity): unknown {
+  // Surface incomplete runs so the caller knows the answer may be partial
+  const stopReason = result.stopReason !== 'done' ? { stopReason: result.stopReason } : {};
+
+  if (verbosity === 'answer') {
+    return { answer: result.answer, ...stopReason };
+  }
+
+  if (verbosity === 'citations') {
+    return {
+      answer: result.answer,
+      citations: result.results.map(record => ({
+        step: record.step,
+        tool: record.tool,
+        arguments: record.arguments,
+        status: record.blocked || (record.error !== undefined ? 'error' : 'ok')
+      })),
+      ...stopReason
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,153 @@
+/**
+ * Template-based analysis
+ * Generates an expert's name, description and system prompt from the discovered
+ * capabilities alone, for analysis without an LLM
+ */
+
+import { Implementation } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import { LLMAnalysis, ServerCapabilities } from './types.js';
+import { isMutatingTool } from './policy.js';
+
+/**
+ * What the server reported about itself during initialization
+ */
+export interface ServerIdentity {
+  serverInfo?: Implementation;
+  instructions?: string;
+}
+
+/**
+ * Number of entries named in the description before the rest are summarized as a count
+ */
+const DESCRIPTION_NAME_LIMIT = 5;
+
+/**
+ * Turns a server or file name into words, e.g. "mcp-server-github" into "Github"
+ * "mcp" and "server" are dropped unless nothing else is left
+ */
+function humanize(name: string): string {
+  const words = name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[\s_\-.@/]+/)
+    .filter(Boolean);
+
+  const trimmed = words.filter(word => !/^(mcp|server)$/i.test(word));
+  return (trimmed.length > 0 ? trimmed : words)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Derives the server's display name from its reported info, falling back to the executable name
+ */
+function serverDisplayName(serverPath: string, identity: ServerIdentity): string {
+  const info = identity.serverInfo;
+  if (info?.title) {
+    return info.title;
+  }
+
+  const fromPath = path.basename(serverPath).replace(/\.[^.]+$/, '');
+  return humanize(info?.name || fromPath) || 'MCP';
+}
+
+/**
+ * Counts entries with a singular or plural noun
+ */
+function count(length: number, noun: string): string {
+  return `${length} ${noun}${length === 1 ? '' : 's'}`;
+}
+
+/**
+ * Names the first few entries of a list, summarizing the rest as a count
+ */
+function listNames(names: string[]): string {
+  const shown = names.slice(0, DESCRIPTION_NAME_LIMIT).join(', ');
+  const rest = names.length - DESCRIPTION_NAME_LIMIT;
+  return rest > 0 ? `${shown} and ${rest} more` : shown;
+}
+
+/**
+ * Formats a bulleted section, or nothing if the list is empty
+ */
+function section(title: string, lines: string[]): string[] {
+  return lines.length > 0 ? [`${title}:`, ...lines.map(line => `- ${line}`), ''] : [];
+}
+
+/**
+ * Appends a description to a label when there is one
+ */
+function describe(label: string, description: string | undefined): string {
+  return description ? `${label}: ${description.trim()}` : label;
+}
+
+/**
+ * Marks tools annotated as read-only and tools that may modify data; others are left unmarked
+ */
+function toolLabel(tool: ServerCapabilities['tools'][number]): string {
+  if (tool.annotations?.readOnlyHint === true) {
+    return ' (read-only)';
+  }
+  return isMutatingTool(tool) ? ' (may modify data)' : '';
+}
+
+/**
+ * Generates an analysis from capabilities without an LLM
+ * The output depends only on its inputs, so re-running it on an unchanged server
+ * produces the same configuration text
+ * @param capabilities - Discovered tools, resources, resource templates and prompts
+ * @param serverPath - Path or URL of the server, used for the name when the server reports none
+ * @param identity - Server info and instructions from initialization
+ */
+export function templateAnalysis(
+  capabilities: ServerCapabilities,
+  serverPath: string,
+  identity: ServerIdentity = {}
+): LLMAnalysis {
+  const serverName = serverDisplayName(serverPath, identity);
+  const expertName = /\bexpert$/i.test(serverName) ? serverName : `${serverName} Expert`;
+  const { tools, resources, resourceTemplates, prompts } = capabilities;
+
+  const offers = [
+    tools.length > 0 ? `${count(tools.length, 'tool')} (${listNames(tools.map(tool => tool.name))})` : '',
+    resources.length + resourceTemplates.length > 0
+      ? count(resources.length + resourceTemplates.length, 'resource')
+      : '',
+    prompts.length > 0 ? count(prompts.length, 'prompt') : ''
+  ].filter(Boolean);
+
+  const expertDescription = offers.length > 0
+    ? `Works with the ${serverName} MCP server, which offers ${offers.join(', ')}.`
+    : `Works with the ${serverName} MCP server.`;
+
+  const mutating = tools.filter(tool => isMutatingTool(tool));
+  const systemPrompt = [
+    `You are the ${expertName}, coordinating with the ${serverName} MCP server to fulfil requests.`,
+    '',
+    ...(identity.instructions ? ['Server instructions:', identity.instructions.trim(), ''] : []),
+    ...section('Tools', tools.map(tool => describe(`${tool.name}${toolLabel(tool)}`, tool.description))),
+    ...section('Resources', resources.map(resource => describe(`${resource.uri} (${resource.name})`, resource.description))),
+    ...section('Resource templates', resourceTemplates.map(template =>
+      describe(`${template.uriTemplate} (${template.name})`, template.description))),
+    ...section('Prompts', prompts.map(prompt => {
+      const args = (prompt.arguments || []).map(arg => arg.name);
+      return describe(args.length > 0 ? `${prompt.name} (arguments: ${args.join(', ')})` : prompt.name, prompt.description);
+    })),
+    'Guidelines:',
+    '- Choose the tools that match the request and pass arguments that satisfy their input schemas.',
+    '- Gather information with read-only tools and resources before changing anything.',
+    ...(mutating.length > 0 ? ['- Only call tools that may modify data when the request asks for the change.'] : []),
+    '- Report what you did and the relevant results concisely; say so if the server could not do what was asked.'
+  ].join('\n');
+
+  return {
+    expertName,
+    expertDescription,
+    systemPrompt,
+    capabilities: {
+      tools: tools.map(tool => tool.name),
+      resources: resources.map(resource => resource.uri),
+      prompts: prompts.map(prompt => prompt.name)
+    }
+  };
+}
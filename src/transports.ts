@@ -0,0 +1,262 @@
+/**
+ * Transport selection for wrapped and exposed MCP servers
+ * Wrapped servers can be reached over stdio, Streamable HTTP or SSE; the wrapper
+ * itself can be exposed over stdio or HTTP so several agents can share one instance
+ */
+
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { ConnectionTarget, HttpServeOptions } from './types.js';
+import { resolveConnectionTarget } from './secrets.js';
+
+/**
+ * Interface the wrapper binds to over HTTP unless another host is given; the wrapper has
+ * no authentication, so it is only reachable from this machine by default
+ */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/**
+ * Parses the URL of a remote MCP server
+ */
+function parseServerUrl(serverPath: string): URL {
+  try {
+    return new URL(serverPath);
+  } catch {
+    throw new Error(`Invalid server URL: ${serverPath}`);
+  }
+}
+
+/**
+ * Creates the client transport used to reach an MCP server,
+ * resolving secret placeholders in its launch settings
+ */
+export function createClientTransport(unresolvedTarget: ConnectionTarget): Transport {
+  const target = resolveConnectionTarget(unresolvedTarget);
+  const transport = target.transport || 'stdio';
+
+  switch (transport) {
+    case 'stdio':
+      return new StdioClientTransport({
+        command: target.serverPath,
+        args: target.args,
+        // Configured variables extend the SDK's safe default environment rather than replacing it
+        env: target.env ? { ...getDefaultEnvironment(), ...target.env } : undefined,
+        cwd: target.cwd
+      });
+
+    case 'http':
+      return new StreamableHTTPClientTransport(parseServerUrl(target.serverPath), {
+        requestInit: { headers: target.headers }
+      });
+
+    case 'sse':
+      return new SSEClientTransport(parseServerUrl(target.serverPath), {
+        requestInit: { headers: target.headers }
+      });
+
+    default:
+      throw new Error(`Unknown transport: ${transport}`);
+  }
+}
+
+/**
+ * Largest request body accepted before a Streamable HTTP session exists
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Reads and parses a JSON request body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Sends a JSON-RPC error without a request id, as the SDK's transports do for invalid requests
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Names the local machine answers to on the loopback interface
+ */
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+/**
+ * Interfaces that stand for every address of the machine
+ */
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::']);
+
+/**
+ * Lists the Host header values the wrapper answers to, or undefined when it is bound to
+ * every interface and cannot know the names it is reached by
+ * Checking the Host header stops web pages that rebind their DNS name to 127.0.0.1
+ * from calling a wrapper that only listens on the local machine
+ */
+function allowedHostHeaders(host: string, port: number): Set<string> | undefined {
+  if (WILDCARD_HOSTS.has(host)) {
+    return undefined;
+  }
+  const name = host.includes(':') ? `[${host}]` : host.toLowerCase();
+  const names = LOOPBACK_HOSTS.includes(name) ? LOOPBACK_HOSTS : [name];
+  return new Set(names.map(allowed => `${allowed}:${port}`));
+}
+
+/**
+ * Checks that a request names this server as its host and, when sent by a browser,
+ * comes from a page served by it
+ */
+function isAllowedRequest(req: http.IncomingMessage, allowedHosts: Set<string> | undefined): boolean {
+  const host = req.headers.host?.toLowerCase();
+  if (!host || (allowedHosts && !allowedHosts.has(host))) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Exposes MCP servers over HTTP.
+ * Streamable HTTP is served at /mcp and legacy SSE at /sse with messages posted to /messages.
+ * Every session gets its own server instance from the factory.
+ * Requests naming another host, or sent from another site's page, are refused.
+ */
+export async function serveOverHttp(
+  createServer: () => Server,
+  options: HttpServeOptions
+): Promise<http.Server> {
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId) {
+        res.writeHead(404).end('Session not found');
+        return;
+      }
+
+      // Only an initialize request may start a session; a server created for anything
+      // else would never be used or closed
+      let body: unknown;
+      try {
+        body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+      const messages = Array.isArray(body) ? body : [body];
+      if (!messages.some(message => isInitializeRequest(message))) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          streamableSessions.set(id, newTransport);
+        }
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          streamableSessions.delete(newTransport.sessionId);
+        }
+      };
+      const server = createServer();
+      await server.connect(newTransport);
+      await newTransport.handleRequest(req, res, body);
+
+      // A rejected initialize request leaves no session to reuse the server
+      if (!newTransport.sessionId) {
+        await server.close();
+      }
+      return;
+    }
+
+    await transport.handleRequest(req, res);
+  };
+
+  const handleSse = async (res: http.ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseSessions.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      sseSessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const transport = sseSessions.get(url.searchParams.get('sessionId') || '');
+    if (!transport) {
+      res.writeHead(404).end('Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res);
+  };
+
+  let allowedHosts: Set<string> | undefined;
+
+  const httpServer = http.createServer(async (req, res) => {
+    if (!isAllowedRequest(req, allowedHosts)) {
+      sendJsonRpcError(res, 403, -32000, 'Invalid Host or Origin header');
+      return;
+    }
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSse(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404).end('Not found');
+      }
+    } catch (error) {
+      console.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        res.writeHead(500).end('Internal server error');
+      }
+    }
+  });
+
+  const host = options.host ?? DEFAULT_HTTP_HOST;
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => resolve());
+  });
+  allowedHosts = allowedHostHeaders(host, (httpServer.address() as AddressInfo).port);
+
+  return httpServer;
+}
@@ -3,48 +3,280 @@
  */
 
 import { z } from 'zod';
+import {
+  PromptSchema,
+  ResourceSchema,
+  ResourceTemplateSchema,
+  Tool,
+  ToolSchema
+} from '@modelcontextprotocol/sdk/types.js';
 
 /**
- * Server capability information
+ * Server capability information, in the MCP SDK's shapes
  */
-export interface ServerCapabilities {
-  tools: any[];
-  resources: any[];
-  prompts: any[];
-}
+export const ServerCapabilitiesSchema = z.object({
+  tools: z.array(ToolSchema),
+  resources: z.array(ResourceSchema),
+  resourceTemplates: z.array(ResourceTemplateSchema),
+  prompts: z.array(PromptSchema)
+});
+
+export type ServerCapabilities = z.infer<typeof ServerCapabilitiesSchema>;
 
 /**
- * LLM analysis result structure
+ * LLM analysis result schema using Zod
  */
-export interface LLMAnalysis {
-  expertName: string;
-  expertDescription: string;
-  systemPrompt: string;
-  capabilities: {
-    tools: string[];
-    resources: string[];
-    prompts: string[];
-  };
-}
+export const LLMAnalysisSchema = z.object({
+  expertName: z.string().min(1),
+  expertDescription: z.string().min(1),
+  systemPrompt: z.string().min(1),
+  capabilities: z.object({
+    tools: z.array(z.string()).default([]),
+    resources: z.array(z.string()).default([]),
+    prompts: z.array(z.string()).default([])
+  }).default({})
+});
+
+export type LLMAnalysis = z.infer<typeof LLMAnalysisSchema>;
+
+/**
+ * Source of a configuration's generated text: an LLM, or analyze --no-llm templates
+ */
+export const GeneratedBySchema = z.enum(['llm', 'template']);
+
+export type GeneratedBy = z.infer<typeof GeneratedBySchema>;
+
+/**
+ * Generated configuration fields that analyze --update may revise unless they are locked
+ */
+export const LockableFieldSchema = z.enum(['description', 'systemPrompt']);
+
+export type LockableField = z.infer<typeof LockableFieldSchema>;
+
+/**
+ * Revised fields returned by the LLM during incremental re-analysis
+ */
+export const LLMRevisionSchema = z.object({
+  expertDescription: z.string().min(1).optional(),
+  systemPrompt: z.string().min(1).optional()
+});
+
+export type LLMRevision = z.infer<typeof LLMRevisionSchema>;
+
+/**
+ * Tool-call plan returned by the LLM at each execute mode step
+ */
+export const ToolCallPlanSchema = z.object({
+  toolCalls: z.array(z.object({
+    id: z.string().min(1).optional(),
+    name: z.string().min(1),
+    arguments: z.record(z.unknown()).default({}),
+    dependsOn: z.array(z.string()).optional()
+  })).default([]),
+  explanation: z.string().optional(),
+  done: z.boolean().optional(),
+  answer: z.string().optional()
+});
+
+export type ToolCallPlan = z.infer<typeof ToolCallPlanSchema>;
+
+/**
+ * Supported LLM providers
+ */
+export const LLMProviderSchema = z.enum(['openai', 'anthropic', 'openai-compatible', 'scripted']);
+
+export type LLMProvider = z.infer<typeof LLMProviderSchema>;
+
+/**
+ * LLM provider settings schema using Zod
+ */
+export const LLMSettingsSchema = z.object({
+  provider: LLMProviderSchema,
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  baseURL: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  responses: z.array(z.string()).optional()
+});
+
+export type LLMSettings = z.infer<typeof LLMSettingsSchema>;
+
+/**
+ * Execution limits for the multi-step tool loop
+ */
+export const ExecutionSettingsSchema = z.object({
+  maxSteps: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  /** Limit for a whole expert call, LLM requests included */
+  timeoutMs: z.number().int().positive().optional(),
+  /** Limit for each wrapped tool call */
+  toolTimeoutMs: z.number().int().positive().optional(),
+  /** Per-tool limits keyed by tool name glob pattern, overriding toolTimeoutMs */
+  toolTimeouts: z.record(z.number().int().positive()).optional(),
+  /** Maximum wrapped server requests in flight at once */
+  maxConcurrency: z.number().int().positive().optional()
+});
+
+export type ExecutionSettings = z.infer<typeof ExecutionSettingsSchema>;
+
+/**
+ * Supervision settings for the wrapped server connection
+ */
+export const SupervisionSettingsSchema = z.object({
+  restart: z.boolean().optional(),
+  maxRestarts: z.number().int().nonnegative().optional(),
+  initialBackoffMs: z.number().int().positive().optional(),
+  maxBackoffMs: z.number().int().positive().optional(),
+  pingIntervalMs: z.number().int().nonnegative().optional(),
+  pingTimeoutMs: z.number().int().positive().optional(),
+  requestTimeoutMs: z.number().int().nonnegative().optional()
+});
+
+export type SupervisionSettings = z.infer<typeof SupervisionSettingsSchema>;
+
+/**
+ * How much detail execute mode returns
+ */
+export const VerbositySchema = z.enum(['answer', 'citations', 'full']);
+
+export type Verbosity = z.infer<typeof VerbositySchema>;
+
+/**
+ * Output settings for expert tool responses
+ */
+export const OutputSettingsSchema = z.object({
+  verbosity: VerbositySchema.optional(),
+  maxOutputChars: z.number().int().positive().optional()
+});
+
+export type OutputSettings = z.infer<typeof OutputSettingsSchema>;
+
+/**
+ * Allowlist and denylist of tool name glob patterns
+ */
+export const ToolFilterSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional()
+});
+
+export type ToolFilter = z.infer<typeof ToolFilterSchema>;
+
+/**
+ * Which wrapped server capabilities are re-exposed unchanged by the wrapper
+ */
+export const PassthroughSettingsSchema = z.object({
+  tools: ToolFilterSchema.optional(),
+  resources: z.boolean().optional(),
+  prompts: z.boolean().optional()
+});
+
+export type PassthroughSettings = z.infer<typeof PassthroughSettingsSchema>;
+
+/**
+ * What execute mode may do with a tool
+ */
+export const PolicyActionSchema = z.enum(['allow', 'deny', 'confirm']);
+
+export type PolicyAction = z.infer<typeof PolicyActionSchema>;
+
+/**
+ * Safety policy for execute mode, as tool name glob patterns
+ * deny wins over confirm, which wins over allow; unlisted tools get the default
+ */
+export const ToolPolicySchema = z.object({
+  default: PolicyActionSchema.optional(),
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  confirm: z.array(z.string()).optional()
+});
+
+export type ToolPolicy = z.infer<typeof ToolPolicySchema>;
+
+/**
+ * Result caching for discovery and read-only calls; enabled when the section is present
+ */
+export const CacheSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  /** TTL for read-only tool results */
+  ttlMs: z.number().int().positive().optional(),
+  /** Per-tool TTLs keyed by tool name glob pattern; 0 disables caching for the tool */
+  toolTtls: z.record(z.number().int().nonnegative()).optional(),
+  /** TTL for tool, resource and prompt listings; 0 disables discovery caching */
+  discoveryTtlMs: z.number().int().nonnegative().optional(),
+  /** File to persist the cache to between runs */
+  path: z.string().optional()
+});
+
+export type CacheSettings = z.infer<typeof CacheSettingsSchema>;
+
+/**
+ * How the runtime reacts when the wrapped server's capabilities drift from the stored snapshot
+ */
+export const DriftSettingsSchema = z.object({
+  /** Re-run the LLM analysis to regenerate the system prompt for the live capabilities */
+  reanalyze: z.boolean().optional()
+});
+
+export type DriftSettings = z.infer<typeof DriftSettingsSchema>;
+
+/**
+ * Transports used to reach a wrapped MCP server
+ */
+export const TransportTypeSchema = z.enum(['stdio', 'http', 'sse']);
+
+export type TransportType = z.infer<typeof TransportTypeSchema>;
+
+/**
+ * Output formats of the inspect command
+ */
+export const InspectFormatSchema = z.enum(['table', 'json', 'markdown']);
+
+export type InspectFormat = z.infer<typeof InspectFormatSchema>;
 
 /**
  * Configuration file structure
  */
 export interface ServerConfig {
+  /** Configuration format version, upgraded on load by the migrations in migrations.ts */
+  schemaVersion: number;
   name: string;
   description: string;
   serverPath: string;
   args: string[];
+  transport?: TransportType;
+  headers?: Record<string, string>;
+  env?: Record<string, string>;
+  cwd?: string;
   systemPrompt: string;
   capabilities: ServerCapabilities;
+  llm?: LLMSettings;
+  execution?: ExecutionSettings;
+  output?: OutputSettings;
+  supervision?: SupervisionSettings;
+  passthrough?: PassthroughSettings;
+  policy?: ToolPolicy;
+  cache?: CacheSettings;
+  drift?: DriftSettings;
+  /** Fields analyze --update must leave as they are */
+  locked?: LockableField[];
   metadata: {
     analyzedAt: string;
     toolCount: number;
     resourceCount: number;
     promptCount: number;
+    /** How the description and system prompt were generated (default: llm) */
+    generatedBy?: GeneratedBy;
   };
 }
 
+/**
+ * How to reach an MCP server: an executable for stdio, or a URL for http and sse
+ */
+export type ConnectionTarget = Pick<
+  ServerConfig,
+  'serverPath' | 'args' | 'transport' | 'headers' | 'env' | 'cwd'
+>;
+
 /**
  * Result of analyzing an MCP server
  */
@@ -56,25 +288,71 @@ export interface AnalysisResult {
   configPath: string;
 }
 
+/**
+ * Options for analyzing an MCP server
+ */
+export interface AnalyzeOptions {
+  llm?: Partial<LLMSettings>;
+  transport?: TransportType;
+  headers?: Record<string, string>;
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Directory to save the configuration in (default: ./configs) */
+  configDir?: string;
+  /** Generate the description and system prompt from templates instead of an LLM */
+  template?: boolean;
+}
+
+/**
+ * Options for running the wrapper server
+ */
+export interface WrapperOptions {
+  llm?: Partial<LLMSettings>;
+  router?: boolean;
+  http?: HttpServeOptions;
+  /** How long shutdown waits for in-flight requests before aborting them */
+  drainTimeoutMs?: number;
+}
+
+/**
+ * Options for exposing the wrapper over HTTP instead of stdio
+ */
+export interface HttpServeOptions {
+  port: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+}
+
 /**
  * Wrapper configuration schema using Zod
  */
 export const WrapperConfigSchema = z.object({
+  schemaVersion: z.number().int().nonnegative().optional(),
   name: z.string(),
   description: z.string(),
   serverPath: z.string(),
   args: z.array(z.string()),
+  transport: TransportTypeSchema.optional(),
+  headers: z.record(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  cwd: z.string().optional(),
   systemPrompt: z.string(),
-  capabilities: z.object({
-    tools: z.array(z.any()),
-    resources: z.array(z.any()),
-    prompts: z.array(z.any())
-  }),
+  llm: LLMSettingsSchema.optional(),
+  execution: ExecutionSettingsSchema.optional(),
+  output: OutputSettingsSchema.optional(),
+  supervision: SupervisionSettingsSchema.optional(),
+  passthrough: PassthroughSettingsSchema.optional(),
+  policy: ToolPolicySchema.optional(),
+  cache: CacheSettingsSchema.optional(),
+  drift: DriftSettingsSchema.optional(),
+  locked: z.array(LockableFieldSchema).optional(),
+  capabilities: ServerCapabilitiesSchema,
   metadata: z.object({
     analyzedAt: z.string(),
     toolCount: z.number(),
     resourceCount: z.number(),
-    promptCount: z.number()
+    promptCount: z.number(),
+    generatedBy: GeneratedBySchema.optional()
   })
 });
 
@@ -85,20 +363,45 @@ export type WrapperConfig = z.infer<typeof WrapperConfigSchema>;
  */
 export const ExpertToolSchema = z.object({
   query: z.string().describe('Your request or question'),
-  mode: z.enum(['discover', 'execute', 'explain']).optional().describe('Operation mode')
+  mode: z.enum(['discover', 'plan', 'execute', 'explain', 'status']).optional().describe('Operation mode'),
+  planId: z.string().optional().describe('ID of a plan returned by plan mode, to execute it as approved'),
+  verbosity: VerbositySchema.optional().describe('Detail level of execute results'),
+  confirm: z.boolean().optional().describe('Allow tools that the policy marks as requiring confirmation')
 });
 
 export type ExpertToolInput = z.infer<typeof ExpertToolSchema>;
 
 /**
- * Tool definition structure
+ * Tool definition structure, as the MCP SDK defines it
  */
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, any>;
-    required?: string[];
-  };
-}
\ No newline at end of file
+export type ToolDefinition = Tool;
+
+/**
+ * A single tool call made during execute mode
+ */
+export interface ToolCallRecord {
+  step: number;
+  tool: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  /** Set when the policy refused the call before it reached the wrapped server */
+  blocked?: 'denied' | 'confirmation_required';
+}
+
+/**
+ * Why the tool loop stopped
+ */
+export type StopReason = 'done' | 'max_steps' | 'token_budget';
+
+/**
+ * Outcome of the multi-step tool loop
+ */
+export interface AgentResult {
+  answer?: string;
+  explanation: string;
+  results: ToolCallRecord[];
+  steps: number;
+  stopReason: StopReason;
+  tokensUsed: number;
+}
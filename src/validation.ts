@@ -0,0 +1,194 @@
+/**
+ * Tool argument validation
+ * Checks LLM-planned tool calls against the wrapped tools' input schemas
+ * before they reach the wrapped server
+ */
+
+import { z } from 'zod';
+import { ToolCallPlanSchema } from './types.js';
+
+/**
+ * Subset of JSON Schema used by MCP tool input schemas
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: unknown[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Tool shape needed for validation
+ */
+export interface ValidatableTool {
+  name: string;
+  inputSchema?: unknown;
+}
+
+/**
+ * Returns the JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Checks whether a value's type satisfies a schema type
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validates a value against a JSON Schema, returning one message per problem
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = ''
+): string[] {
+  const label = path || 'arguments';
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${label} must be ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${label} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const name of schema.required || []) {
+      if (record[name] === undefined) {
+        errors.push(`${path ? `${path}.` : ''}${name} is required`);
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(record)) {
+      const propertyPath = path ? `${path}.${name}` : name;
+      const propertySchema = schema.properties?.[name];
+
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(propertyValue, propertySchema, propertyPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath} is not an allowed property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, propertyPath));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(item, schema.items!, `${label}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a planned tool call, returning one message per problem
+ */
+export function validateToolCall(
+  name: string,
+  args: Record<string, unknown>,
+  tools: ValidatableTool[]
+): string[] {
+  const tool = tools.find(candidate => candidate.name === name);
+  if (!tool) {
+    return [`Unknown tool: ${name}. Available tools: ${tools.map(candidate => candidate.name).join(', ') || 'none'}`];
+  }
+
+  if (!tool.inputSchema || typeof tool.inputSchema !== 'object') {
+    return [];
+  }
+
+  return validateAgainstSchema(args, tool.inputSchema as JsonSchema);
+}
+
+/**
+ * Creates a plan schema that also checks every tool call against the available tools,
+ * so invalid plans are sent back to the LLM for correction
+ */
+export function createPlanSchema(tools: ValidatableTool[]) {
+  return ToolCallPlanSchema.superRefine((plan, ctx) => {
+    plan.toolCalls.forEach((toolCall, index) => {
+      for (const message of validateToolCall(toolCall.name, toolCall.arguments, tools)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['toolCalls', index],
+          message: `${toolCall.name}: ${message}`
+        });
+      }
+    });
+
+    for (const { index, message } of validateDependencies(plan.toolCalls)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['toolCalls', index, 'dependsOn'],
+        message
+      });
+    }
+  });
+}
+
+/**
+ * Checks that call ids are unique and that dependencies name other calls in the
+ * same step without forming a cycle
+ */
+export function validateDependencies(
+  toolCalls: Array<{ id?: string; dependsOn?: string[] }>
+): Array<{ index: number; message: string }> {
+  const problems: Array<{ index: number; message: string }> = [];
+  const indexById = new Map<string, number>();
+
+  toolCalls.forEach((toolCall, index) => {
+    if (toolCall.id === undefined) return;
+    if (indexById.has(toolCall.id)) {
+      problems.push({ index, message: `Duplicate call id: ${toolCall.id}` });
+    }
+    indexById.set(toolCall.id, index);
+  });
+
+  toolCalls.forEach((toolCall, index) => {
+    for (const id of toolCall.dependsOn || []) {
+      if (!indexById.has(id)) {
+        problems.push({ index, message: `Unknown dependency: ${id}. Dependencies must be ids of calls in the same step` });
+      }
+    }
+  });
+
+  // Depth-first search for cycles, reporting the call where each cycle closes
+  const state = new Map<number, 'visiting' | 'done'>();
+  const visit = (index: number): void => {
+    state.set(index, 'visiting');
+    for (const id of toolCalls[index].dependsOn || []) {
+      const dependency = indexById.get(id);
+      if (dependency === undefined) continue;
+      if (state.get(dependency) === 'visiting') {
+        problems.push({ index, message: `Circular dependency on ${id}` });
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    state.set(index, 'done');
+  };
+  toolCalls.forEach((_toolCall, index) => {
+    if (!state.has(index)) visit(index);
+  });
+
+  return problems;
+}
@@ -5,17 +5,86 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ProgressToken,
+  ServerNotification,
+  Tool
+} from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
 import {
+  ServerCapabilities,
   WrapperConfig,
   WrapperConfigSchema,
+  WrapperOptions,
   ExpertToolSchema,
-  ToolDefinition
+  ExpertToolInput,
+  ToolDefinition,
+  ToolCallRecord
 } from './types.js';
+import {
+  LLMRuntime,
+  mergeLLMSettings,
+  validateProviderEnvironment,
+  createLLMRuntime
+} from './providers.js';
+import {
+  ToolLoopOptions,
+  runToolLoop,
+  planToolCalls,
+  runApprovedPlan,
+  resolveToolTimeout
+} from './agent.js';
+import {
+  DEFAULT_VERBOSITY,
+  DEFAULT_MAX_OUTPUT_CHARS,
+  synthesizeAnswer,
+  formatExecuteResult,
+  truncateText
+} from './synthesis.js';
+import { formatZodError } from './structured.js';
+import { migrateConfig } from './migrations.js';
+import { createClientTransport, serveOverHttp } from './transports.js';
+import { SupervisedConnection, createSupervisor } from './supervisor.js';
+import { ROUTER_TOOL_NAME, createRouterTool, selectExpert } from './router.js';
+import { createLifecycle } from './lifecycle.js';
+import {
+  listWrappedResources,
+  listWrappedResourceTemplates,
+  listWrappedPrompts,
+  createResourceTools,
+  registerPassthroughHandlers
+} from './resources.js';
+import { selectPassthroughTools } from './passthrough.js';
+import { resolveToolPolicy } from './policy.js';
+import { PlanStore, createPlanStore } from './plans.js';
+import { Limiter, createLimiter } from './concurrency.js';
+import {
+  CacheStore,
+  CacheSession,
+  DEFAULT_DISCOVERY_TTL_MS,
+  DISCOVERY_KEY_PREFIX,
+  createCacheStore,
+  createCacheSession,
+  callCacheKey,
+  resolveCacheTtl,
+  invalidateCapability
+} from './cache.js';
+import {
+  ListChangedKind,
+  listCapabilities,
+  detectDrift,
+  hasDrift,
+  hasListDrift,
+  describeDrift,
+  watchListChanges
+} from './drift.js';
+import { analyzeWithLLM } from './analyzer.js';
 
 /**
  * Loads configuration from file
@@ -23,9 +92,13 @@ import {
 export async function loadConfig(configPath: string): Promise<WrapperConfig> {
   try {
     const configData = await fs.readFile(configPath, 'utf-8');
-    const config = JSON.parse(configData);
+    // Older files are upgraded in memory; configs migrate rewrites them on disk
+    const { config } = migrateConfig(JSON.parse(configData));
     return WrapperConfigSchema.parse(config);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(`Failed to load configuration: ${formatZodError(error)}`);
+    }
     if (error instanceof Error) {
       throw new Error(`Failed to load configuration: ${error.message}`);
     }
@@ -51,8 +124,21 @@ export function createExpertTool(config: WrapperConfig): ToolDefinition {
         },
         mode: {
           type: 'string',
-          enum: ['discover', 'execute', 'explain'],
+          enum: ['discover', 'plan', 'execute', 'explain', 'status'],
           description: 'Operation mode'
+        },
+        planId: {
+          type: 'string',
+          description: 'ID of a plan returned by plan mode, to execute it as approved'
+        },
+        verbosity: {
+          type: 'string',
+          enum: ['answer', 'citations', 'full'],
+          description: 'Detail level of execute results: the answer only, the answer with the tools called, or full raw results'
+        },
+        confirm: {
+          type: 'boolean',
+          description: 'Allow tools that the policy marks as requiring confirmation'
         }
       },
       required: ['query']
@@ -65,11 +151,8 @@ export function createExpertTool(config: WrapperConfig): ToolDefinition {
  */
 export async function connectToWrappedServer(
   config: WrapperConfig
-): Promise<{ client: Client; transport: StdioClientTransport }> {
-  const transport = new StdioClientTransport({
-    command: config.serverPath,
-    args: config.args
-  });
+): Promise<{ client: Client; transport: Transport }> {
+  const transport = createClientTransport(config);
 
   const client = new Client({
     name: 'mcp-wrapper-client',
@@ -90,33 +173,41 @@ export async function connectToWrappedServer(
  * Handles expert tool execution
  */
 async function handleExpertQuery(
-  query: string,
-  mode: string | undefined,
+  input: ExpertToolInput,
   config: WrapperConfig,
-  wrappedClient: Client
-): Promise<any> {
-  const effectiveMode = mode || 'execute';
+  wrappedClient: Client,
+  llm: LLMRuntime,
+  plans: PlanStore,
+  callOptions: Pick<ToolLoopOptions, 'signal' | 'onProgress' | 'limiter'> & { cache?: CacheSession } = {}
+): Promise<unknown> {
+  const effectiveMode = input.mode || 'execute';
+  const { cache, ...requestOptions } = callOptions;
+
+  // Listings are cached until they expire or the wrapped server reports a change
+  const discoveryTtl = config.cache?.discoveryTtlMs ?? DEFAULT_DISCOVERY_TTL_MS;
+  const discover = <T>(kind: string, load: () => Promise<T>): Promise<T> =>
+    cache && discoveryTtl > 0 ? cache.fetch(`${DISCOVERY_KEY_PREFIX}${kind}`, discoveryTtl, load) : load();
+  const listTools = () => discover('tools', async () => (await wrappedClient.listTools()).tools || []);
+  const listResources = () => discover('resources', () => listWrappedResources(wrappedClient));
+  const listTemplates = () => discover('resourceTemplates', () => listWrappedResourceTemplates(wrappedClient));
+  const listPrompts = () => discover('prompts', () => listWrappedPrompts(wrappedClient));
 
   // Handle discover mode
   if (effectiveMode === 'discover') {
-    const [tools, resources, prompts] = await Promise.all([
-      wrappedClient.listTools(),
-      wrappedClient.listResources(),
-      wrappedClient.listPrompts()
-    ]);
+    const [tools, resources, prompts] = await Promise.all([listTools(), listResources(), listPrompts()]);
 
     return {
-      summary: `${config.name} provides ${tools.tools?.length || 0} tools, ${resources.resources?.length || 0} resources, and ${prompts.prompts?.length || 0} prompts`,
-      tools: tools.tools || [],
-      resources: resources.resources || [],
-      prompts: prompts.prompts || []
+      summary: `${config.name} provides ${tools.length} tools, ${resources.length} resources, and ${prompts.length} prompts`,
+      tools,
+      resources,
+      prompts
     };
   }
 
   // Handle explain mode
   if (effectiveMode === 'explain') {
-    const tools = await wrappedClient.listTools();
-    const toolNames = tools.tools?.map(t => t.name).join(', ') || 'none';
+    const tools = await listTools();
+    const toolNames = tools.map(t => t.name).join(', ') || 'none';
     
     return {
       description: config.description,
@@ -126,140 +217,525 @@ async function handleExpertQuery(
     };
   }
 
-  // Handle execute mode - use LLM to coordinate
-  const tools = await wrappedClient.listTools();
-  
-  const coordinationPrompt = `
-${config.systemPrompt}
+  // Plan and execute mode can read resources and render prompts as well as call tools
+  const [tools, resources, templates, prompts] = await Promise.all([
+    listTools(),
+    listResources(),
+    listTemplates(),
+    listPrompts()
+  ]);
+  const operations = [...tools, ...createResourceTools(resources, templates, prompts)];
+
+  // Repeated read-only calls are served from cache; failed results are never cached
+  const cacheSettings = config.cache;
+  const cacheCall: ToolLoopOptions['cacheCall'] = cache && cacheSettings
+    ? (name, args, load) => {
+      const ttl = resolveCacheTtl(operations.find(operation => operation.name === name) || { name }, cacheSettings);
+      return ttl ? cache.fetch(callCacheKey(name, args), ttl, load, result => !result.isError) : load();
+    }
+    : undefined;
+  const loopOptions = { ...requestOptions, cacheCall, confirmed: input.confirm };
+  const expertName = createExpertTool(config).name;
 
-Available tools:
-${JSON.stringify(tools.tools || [], null, 2)}
+  // Handle plan mode - return the validated first step for approval without running it
+  if (effectiveMode === 'plan') {
+    try {
+      const { plan } = await planToolCalls(input.query, config, llm, operations, loopOptions);
+      const toolCalls = plan.toolCalls.map(toolCall => ({
+        ...toolCall,
+        policy: resolveToolPolicy(toolCall.name, config.policy)
+      }));
 
-User query: ${query}
+      if (toolCalls.length === 0) {
+        return { toolCalls, explanation: plan.explanation, answer: plan.answer };
+      }
 
-Based on the user's query and available tools, determine which tool(s) to use and with what arguments.
-Respond with a JSON object in this format:
-{
-  "toolCalls": [
-    {
-      "name": "tool_name",
-      "arguments": { ... }
+      const stored = plans.save({
+        expert: expertName,
+        query: input.query,
+        toolCalls: plan.toolCalls,
+        explanation: plan.explanation,
+        done: plan.done
+      });
+      return {
+        planId: stored.id,
+        expiresAt: stored.expiresAt,
+        toolCalls,
+        explanation: plan.explanation,
+        // More steps will be planned after these calls when the plan is executed
+        done: Boolean(plan.done)
+      };
+    } catch (error) {
+      throw new Error(`Failed to plan with wrapped server: ${error instanceof Error ? error.message : String(error)}`);
     }
-  ],
-  "explanation": "Brief explanation of what you're doing"
-}
+  }
 
-Respond ONLY with valid JSON.`;
+  // Handle execute mode - run an approved plan, or let the LLM coordinate a multi-step loop
+  const verbosity = input.verbosity || config.output?.verbosity || DEFAULT_VERBOSITY;
+  const approved = input.planId ? plans.get(input.planId) : undefined;
+  if (input.planId && !approved) {
+    throw new Error(`Unknown or expired plan: ${input.planId}`);
+  }
+  if (approved) {
+    if (approved.expert !== expertName) {
+      throw new Error(`Plan ${approved.id} belongs to expert ${approved.expert}`);
+    }
+    plans.take(approved.id);
+  }
+  const query = approved ? approved.query : input.query;
 
   try {
-    const llmResponse = await generateText({
-      model: openai('gpt-4o-mini'),
-      prompt: coordinationPrompt,
-      temperature: 0.3
-    });
+    const result = approved
+      ? await runApprovedPlan(approved, config, wrappedClient, llm, operations, loopOptions)
+      : await runToolLoop(query, config, wrappedClient, llm, operations, loopOptions);
 
-    const plan = JSON.parse(llmResponse.text);
-    const results = [];
-
-    // Execute planned tool calls
-    for (const toolCall of plan.toolCalls || []) {
-      try {
-        const result = await wrappedClient.callTool({
-          name: toolCall.name,
-          arguments: toolCall.arguments
-        });
-        results.push({
-          tool: toolCall.name,
-          result: result.content
-        });
-      } catch (error) {
-        results.push({
-          tool: toolCall.name,
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+    // Condense tool outputs unless the loop already finished with an answer
+    if (result.answer === undefined && result.results.length > 0) {
+      result.answer = await synthesizeAnswer(query, result, config, llm);
     }
 
-    return {
-      explanation: plan.explanation,
-      results
-    };
+    return formatExecuteResult(result, verbosity);
   } catch (error) {
     throw new Error(`Failed to coordinate with wrapped server: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Validates environment configuration
+ * A wrapped MCP server together with its expert tool and any raw tools exposed directly
  */
-function validateEnvironment(): void {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
+interface ExpertBackend {
+  /** Configuration in use, with a regenerated system prompt if the server has drifted */
+  config: WrapperConfig;
+  /** Configuration as loaded from disk */
+  stored: WrapperConfig;
+  /** Capabilities the wrapped server currently offers */
+  live: ServerCapabilities;
+  connection: SupervisedConnection;
+  llm: LLMRuntime;
+  tool: ToolDefinition;
+  rawTools: Tool[];
+  /** Caps concurrent requests to the wrapped server across all queries */
+  limiter: Limiter;
+  cache?: CacheStore;
 }
 
 /**
- * Starts the wrapper MCP server
+ * Expands configuration paths, replacing directories with the JSON files they contain
  */
-export async function startWrapperServer(configPath: string): Promise<void> {
-  // Validate environment
-  validateEnvironment();
+export async function resolveConfigPaths(configPaths: string[]): Promise<string[]> {
+  const resolved: string[] = [];
+
+  for (const configPath of configPaths) {
+    const stats = await fs.stat(configPath);
+    if (!stats.isDirectory()) {
+      resolved.push(configPath);
+      continue;
+    }
+
+    const entries = await fs.readdir(configPath);
+    const jsonFiles = entries.filter(entry => entry.endsWith('.json')).sort();
+    if (jsonFiles.length === 0) {
+      throw new Error(`No configuration files found in ${configPath}`);
+    }
+    resolved.push(...jsonFiles.map(entry => path.join(configPath, entry)));
+  }
+
+  return resolved;
+}
 
-  // Load configuration
+/**
+ * Loads a configuration and connects to the server it wraps
+ */
+async function startBackend(
+  configPath: string,
+  options: WrapperOptions,
+  abortSignal: AbortSignal,
+  onListChanged: (kind: ListChangedKind) => void
+): Promise<ExpertBackend> {
   const config = await loadConfig(configPath);
 
-  // Connect to wrapped server
-  const { client: wrappedClient } = await connectToWrappedServer(config);
+  // Resolve LLM provider, CLI overrides taking precedence over the config
+  const llmSettings = mergeLLMSettings(config.llm, options.llm);
+  validateProviderEnvironment(llmSettings);
+  const llm = { ...createLLMRuntime(llmSettings), abortSignal };
 
-  // Create expert tool
-  const expertTool = createExpertTool(config);
+  const cache = config.cache && config.cache.enabled !== false
+    ? await createCacheStore(config.cache.path)
+    : undefined;
 
-  // Create MCP server
-  const server = new Server({
-    name: 'mcp-context-saver',
-    version: '0.0.1'
-  }, {
-    capabilities: {
-      tools: {}
+  let backend: ExpertBackend | undefined;
+  let refreshing: Promise<void> = Promise.resolve();
+
+  // Refreshes run one at a time so the live view settles on the latest listing
+  const refresh = (client: Client) => {
+    refreshing = refreshing
+      .then(async () => {
+        if (backend) {
+          await applyCapabilities(backend, await listCapabilities(client), onListChanged);
+        }
+      })
+      .catch(error => console.error(`Failed to refresh capabilities of ${config.name}:`, error));
+  };
+
+  const connection = createSupervisor(async () => {
+    const { client } = await connectToWrappedServer(config);
+    // A new connection may be to a restarted or upgraded server
+    cache?.clear(DISCOVERY_KEY_PREFIX);
+    watchListChanges(client, kind => {
+      if (cache) {
+        invalidateCapability(cache, kind);
+      }
+      refresh(client);
+    });
+    if (backend) {
+      refresh(client);
     }
-  });
+    return client;
+  }, config.supervision);
+  await connection.start();
+
+  let live: ServerCapabilities;
+  try {
+    live = await listCapabilities(await connection.getClient());
+  } catch (error) {
+    await connection.close();
+    throw new Error(`Failed to list capabilities: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  backend = {
+    config,
+    stored: config,
+    live: config.capabilities,
+    connection,
+    llm,
+    tool: createExpertTool(config),
+    rawTools: [],
+    limiter: createLimiter(config.execution?.maxConcurrency),
+    cache
+  };
+  await applyCapabilities(backend, live, onListChanged);
+  return backend;
+}
 
-  // Register handlers
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [expertTool]
-  }));
+/**
+ * Selects the wrapped tools to expose directly
+ * Raw calls bypass execute mode, so only tools the policy allows outright are exposed
+ */
+function selectRawTools(config: WrapperConfig, tools: Tool[]): Tool[] {
+  if (!config.passthrough?.tools) {
+    return [];
+  }
+  return selectPassthroughTools(tools, config.passthrough.tools)
+    .filter(tool => resolveToolPolicy(tool.name, config.policy) === 'allow');
+}
+
+/**
+ * Updates a backend's live capability view, reports drift from the stored configuration
+ * and calls onListChanged for each list whose exposed part changed
+ */
+async function applyCapabilities(
+  backend: ExpertBackend,
+  live: ServerCapabilities,
+  onListChanged: (kind: ListChangedKind) => void
+): Promise<void> {
+  const changes = detectDrift(backend.live, live);
+  backend.live = live;
+
+  const rawTools = selectRawTools(backend.stored, live.tools);
+  const rawToolsChanged = !isDeepStrictEqual(rawTools, backend.rawTools);
+  backend.rawTools = rawTools;
+
+  if (hasDrift(changes)) {
+    const drift = detectDrift(backend.stored.capabilities, live);
+    if (!hasDrift(drift)) {
+      backend.config = backend.stored;
+    } else {
+      console.error(`${backend.stored.name} has drifted from its configuration:\n  ${describeDrift(drift).join('\n  ')}`);
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    if (request.params.name !== expertTool.name) {
-      throw new Error(`Unknown tool: ${request.params.name}`);
+      // The stored system prompt may describe tools that no longer exist
+      if (backend.stored.drift?.reanalyze) {
+        try {
+          const analysis = await analyzeWithLLM(live, backend.llm);
+          backend.config = { ...backend.stored, systemPrompt: analysis.systemPrompt };
+        } catch (error) {
+          console.error(`Keeping the previous system prompt of ${backend.stored.name}:`, error);
+        }
+      }
     }
+  }
 
-    const args = ExpertToolSchema.parse(request.params.arguments);
-    const result = await handleExpertQuery(
-      args.query,
-      args.mode,
-      config,
-      wrappedClient
-    );
+  if (rawToolsChanged) {
+    onListChanged('tools');
+  }
+  if (backend.stored.passthrough?.resources
+    && (hasListDrift(changes.resources) || hasListDrift(changes.resourceTemplates))) {
+    onListChanged('resources');
+  }
+  if (backend.stored.passthrough?.prompts && hasListDrift(changes.prompts)) {
+    onListChanged('prompts');
+  }
+}
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2)
+/**
+ * Cancellation and progress reporting for a single host request
+ */
+interface RequestContext {
+  signal: AbortSignal;
+  onProgress?: (record: ToolCallRecord) => void;
+}
+
+/**
+ * Creates a callback that reports each completed tool call as an MCP progress notification,
+ * if the host asked for progress
+ */
+function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): RequestContext['onProgress'] {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let progress = 0;
+  return record => {
+    progress++;
+    void sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        message: `Step ${record.step}: ${record.tool} ${record.error !== undefined ? 'failed' : 'completed'}`
+      }
+    }).catch(() => undefined);
+  };
+}
+
+/**
+ * Runs an expert query against a backend and renders the tool response
+ */
+async function callExpert(
+  backend: ExpertBackend,
+  plans: PlanStore,
+  input: ExpertToolInput,
+  context: RequestContext,
+  extra: object = {}
+) {
+  // The expert's overall timeout aborts LLM requests and wrapped calls alike
+  const timeoutMs = backend.config.execution?.timeoutMs;
+  const timeout = new AbortController();
+  const timer = timeoutMs
+    ? setTimeout(() => timeout.abort(new Error(`Expert call timed out after ${timeoutMs}ms`)), timeoutMs)
+    : undefined;
+  const signal = AbortSignal.any([context.signal, timeout.signal]);
+  const cache = backend.cache ? createCacheSession(backend.cache) : undefined;
+
+  let result: unknown;
+  try {
+    // Status is answered by the supervisor so it works while the server is down
+    result = input.mode === 'status'
+      ? { expert: backend.tool.name, health: backend.connection.health() }
+      : await handleExpertQuery(
+        input,
+        backend.config,
+        await backend.connection.getClient(),
+        { ...backend.llm, abortSignal: signal },
+        plans,
+        { signal, onProgress: context.onProgress, limiter: backend.limiter, cache }
+      );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: truncateText(
+          JSON.stringify({ ...extra, ...(result as object) }, null, 2),
+          backend.config.output?.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS
+        )
+      }
+    ],
+    ...(cache ? { _meta: { cache: cache.stats } } : {})
+  };
+}
+
+/**
+ * Starts the wrapper MCP server for one or more configurations
+ */
+export async function startWrapperServer(
+  configPaths: string | string[],
+  options: WrapperOptions = {}
+): Promise<void> {
+  // Load configurations and connect to every wrapped server
+  const paths = await resolveConfigPaths(Array.isArray(configPaths) ? configPaths : [configPaths]);
+  const lifecycle = createLifecycle(options.drainTimeoutMs);
+  const backends: ExpertBackend[] = [];
+  const backendsByTool = new Map<string, ExpertBackend>();
+  const servers = new Set<Server>();
+
+  // Raw tools share the tools/list namespace with the experts, so names must stay unique
+  const rawToolOwners = new Map<string, ExpertBackend>();
+  const indexRawTools = (): string[] => {
+    const duplicates: string[] = [];
+    rawToolOwners.clear();
+    for (const backend of backends) {
+      for (const rawTool of backend.rawTools) {
+        if (backendsByTool.has(rawTool.name) || rawToolOwners.has(rawTool.name) || rawTool.name === ROUTER_TOOL_NAME) {
+          duplicates.push(rawTool.name);
+        } else {
+          rawToolOwners.set(rawTool.name, backend);
         }
+      }
+    }
+    return duplicates;
+  };
+
+  // Tell connected hosts when the tools, resources or prompts they can see have changed
+  const onListChanged = (kind: ListChangedKind) => {
+    if (kind === 'tools') {
+      for (const name of indexRawTools()) {
+        console.error(`Not exposing passthrough tool ${name}: the name is already in use`);
+      }
+    }
+    for (const server of servers) {
+      const sent = kind === 'tools'
+        ? server.sendToolListChanged()
+        : kind === 'resources' ? server.sendResourceListChanged() : server.sendPromptListChanged();
+      sent.catch(() => undefined);
+    }
+  };
+
+  try {
+    for (const configPath of paths) {
+      backends.push(await startBackend(configPath, options, lifecycle.signal, onListChanged));
+    }
+  } catch (error) {
+    await Promise.allSettled(backends.map(backend => backend.connection.close()));
+    throw error;
+  }
+
+  for (const backend of backends) {
+    if (backendsByTool.has(backend.tool.name) || backend.tool.name === ROUTER_TOOL_NAME) {
+      await Promise.allSettled(backends.map(b => b.connection.close()));
+      throw new Error(`Duplicate expert tool name: ${backend.tool.name}`);
+    }
+    backendsByTool.set(backend.tool.name, backend);
+  }
+
+  const duplicates = indexRawTools();
+  if (duplicates.length > 0) {
+    await Promise.allSettled(backends.map(b => b.connection.close()));
+    throw new Error(`Duplicate passthrough tool name: ${duplicates[0]}`);
+  }
+
+  const expertTools = backends.map(backend => backend.tool);
+  const routerTool = options.router ? createRouterTool(expertTools) : null;
+  const routerLLM = routerTool
+    ? { ...createLLMRuntime(mergeLLMSettings(backends[0].config.llm, options.llm)), abortSignal: lifecycle.signal }
+    : null;
+
+  // Plans are shared so the router can send an approved plan back to its expert
+  const plans = createPlanStore();
+
+  // Resources and prompts are only re-exposed for configurations that opt in
+  const resourceSources = backends
+    .filter(backend => backend.config.passthrough?.resources)
+    .map(backend => backend.connection);
+  const promptSources = backends
+    .filter(backend => backend.config.passthrough?.prompts)
+    .map(backend => backend.connection);
+
+  // Create an MCP server exposing the expert tools; HTTP sessions each get their own
+  const createServer = (): Server => {
+    const server = new Server({
+      name: 'mcp-context-saver',
+      version: '0.0.1'
+    }, {
+      capabilities: {
+        tools: { listChanged: true },
+        ...(resourceSources.length > 0 ? { resources: { listChanged: true } } : {}),
+        ...(promptSources.length > 0 ? { prompts: { listChanged: true } } : {})
+      }
+    });
+
+    // Register handlers
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [
+        ...(routerTool ? [routerTool] : []),
+        ...expertTools,
+        ...backends.flatMap(backend => backend.rawTools.filter(tool => rawToolOwners.get(tool.name) === backend))
       ]
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      if (lifecycle.isShuttingDown()) {
+        throw new Error('Wrapper is shutting down');
+      }
+
+      // Host cancellation and shutdown both reach the LLM and the wrapped server
+      const context: RequestContext = {
+        signal: AbortSignal.any([extra.signal, lifecycle.signal]),
+        onProgress: createProgressReporter(request.params._meta?.progressToken, extra.sendNotification)
+      };
+
+      // Raw tools are forwarded unchanged, skipping the LLM entirely
+      const owner = rawToolOwners.get(request.params.name);
+      if (owner) {
+        return lifecycle.track(owner.limiter(async () => (await owner.connection.getClient()).callTool(request.params, undefined, {
+          signal: context.signal,
+          timeout: resolveToolTimeout(request.params.name, owner.config.execution)
+        })));
+      }
+
+      const args = ExpertToolSchema.parse(request.params.arguments);
+
+      if (routerTool && routerLLM && request.params.name === routerTool.name) {
+        return lifecycle.track((async () => {
+          // Approved plans go back to the expert that made them
+          const plan = args.planId ? plans.get(args.planId) : undefined;
+          const selection = plan && backendsByTool.has(plan.expert)
+            ? { expert: plan.expert, reason: `Plan ${plan.id} was made by this expert` }
+            : await selectExpert(args.query, expertTools, { ...routerLLM, abortSignal: context.signal });
+          return callExpert(backendsByTool.get(selection.expert)!, plans, args, context, { routedTo: selection });
+        })());
+      }
+
+      const backend = backendsByTool.get(request.params.name);
+      if (!backend) {
+        throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+
+      return lifecycle.track(callExpert(backend, plans, args, context));
+    });
+
+    registerPassthroughHandlers(server, resourceSources, promptSources);
+
+    servers.add(server);
+    server.onclose = () => {
+      servers.delete(server);
     };
+    return server;
+  };
+
+  // Cleanup runs in reverse: stop listening, close exposed servers, then wrapped servers
+  lifecycle.onShutdown('wrapped servers', async () => {
+    await Promise.allSettled(backends.map(backend => backend.connection.close()));
+  });
+  lifecycle.onShutdown('exposed servers', async () => {
+    await Promise.allSettled([...servers].map(server => server.close()));
   });
 
   // Start server transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-
-  // Handle shutdown
-  process.on('SIGINT', async () => {
-    await wrappedClient.close();
-    await server.close();
-    process.exit(0);
-  });
-}
\ No newline at end of file
+  if (options.http) {
+    const httpServer = await serveOverHttp(createServer, options.http);
+    lifecycle.onShutdown('HTTP server', () => new Promise<void>(resolve => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    }));
+  } else {
+    await createServer().connect(new StdioServerTransport());
+  }
+
+  lifecycle.installProcessHandlers({ watchStdin: !options.http });
+}
@@ -202,6 +202,7 @@ startWrapperServer('${configPath}').then(() => {
             name: tools[0].name,
             arguments: {
               query: 'Please echo "Hello, World!"',
+              verbosity: 'full'
             },
           },
         },
@@ -222,6 +223,7 @@ startWrapperServer('${configPath}').then(() => {
             name: tools[0].name,
             arguments: {
               query: 'Please add 15 and 27',
+              verbosity: 'full'
             },
           },
         },
@@ -0,0 +1,387 @@
+/**
+ * Unit tests for the multi-step tool loop
+ */
+
+import { runToolLoop, planToolCalls, runApprovedPlan, resolveToolTimeout } from '../../src/agent.js';
+import { createLLMRuntime } from '../../src/providers.js';
+import { proposePolicy } from '../../src/policy.js';
+import { createResourceTools, READ_RESOURCE_TOOL } from '../../src/resources.js';
+import { WrapperConfig } from '../../src/types.js';
+
+describe('Tool Loop', () => {
+  const baseConfig: WrapperConfig = {
+    name: 'Test Expert',
+    description: 'A test expert for unit testing',
+    serverPath: '/path/to/server',
+    args: [],
+    systemPrompt: 'You are a test expert.',
+    capabilities: {
+      tools: [],
+      resources: [],
+      resourceTemplates: [],
+      prompts: []
+    },
+    metadata: {
+      analyzedAt: '2023-01-01T00:00:00.000Z',
+      toolCount: 2,
+      resourceCount: 0,
+      promptCount: 0
+    }
+  };
+
+  const tools = [
+    { name: 'lookup', inputSchema: { type: 'object', properties: { key: { type: 'string' } } } },
+    { name: 'fetch', inputSchema: { type: 'object', properties: { id: { type: 'string' } } } }
+  ];
+
+  const scripted = (...responses: object[]) => createLLMRuntime({
+    provider: 'scripted',
+    responses: responses.map(response => JSON.stringify(response))
+  });
+
+  test('should chain dependent calls across steps', async () => {
+    const client = {
+      callTool: jest.fn()
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'id-42' }] })
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'the record' }] })
+    };
+
+    const llm = scripted(
+      { toolCalls: [{ name: 'lookup', arguments: { key: 'a' } }], explanation: 'Looking up id.' },
+      { toolCalls: [{ name: 'fetch', arguments: { id: 'id-42' } }], explanation: 'Fetching record.' },
+      { toolCalls: [], done: true, answer: 'the record' }
+    );
+
+    const result = await runToolLoop('get a', baseConfig, client as any, llm, tools);
+
+    expect(client.callTool).toHaveBeenNthCalledWith(2, { name: 'fetch', arguments: { id: 'id-42' } }, undefined, expect.any(Object));
+    expect(result.results.map(r => [r.step, r.tool])).toEqual([[1, 'lookup'], [2, 'fetch']]);
+    expect(result.answer).toBe('the record');
+    expect(result.stopReason).toBe('done');
+    expect(result.steps).toBe(3);
+  });
+
+  test('should record tool errors so the LLM can retry', async () => {
+    const client = {
+      callTool: jest.fn()
+        .mockRejectedValueOnce(new Error('bad key'))
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'ok' }] })
+    };
+
+    const llm = scripted(
+      { toolCalls: [{ name: 'lookup', arguments: { key: 'x' } }] },
+      { toolCalls: [{ name: 'lookup', arguments: { key: 'y' } }], done: true, answer: 'ok' }
+    );
+
+    const result = await runToolLoop('get', baseConfig, client as any, llm, tools);
+
+    expect(result.results[0].error).toBe('bad key');
+    expect(result.results[1].result).toEqual([{ type: 'text', text: 'ok' }]);
+    expect(result.stopReason).toBe('done');
+  });
+
+  test('should send invalid plans back for correction before calling tools', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] })
+    };
+
+    const llm = scripted(
+      { toolCalls: [{ name: 'delete_everything', arguments: {} }] },
+      { toolCalls: [{ name: 'lookup', arguments: { key: 7 } }] },
+      { toolCalls: [{ name: 'lookup', arguments: { key: '7' } }] },
+      { done: true, answer: 'ok' }
+    );
+
+    const result = await runToolLoop('get', baseConfig, client as any, llm, tools);
+
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+    expect(client.callTool).toHaveBeenCalledWith({ name: 'lookup', arguments: { key: '7' } }, undefined, expect.any(Object));
+    expect(result.answer).toBe('ok');
+  });
+
+  test('should stop at the configured maximum number of steps', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [] })
+    };
+
+    const llm = scripted({ toolCalls: [{ name: 'lookup', arguments: {} }] });
+    const config = { ...baseConfig, execution: { maxSteps: 3 } };
+
+    const result = await runToolLoop('loop', config, client as any, llm, tools);
+
+    expect(client.callTool).toHaveBeenCalledTimes(3);
+    expect(result.stopReason).toBe('max_steps');
+    expect(result.steps).toBe(3);
+  });
+
+  test('should refuse calls restricted by the policy before they reach the server', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] })
+    };
+
+    const llm = scripted(
+      { toolCalls: [{ name: 'fetch', arguments: { id: '1' } }, { name: 'lookup', arguments: { key: 'a' } }] },
+      { done: true, answer: 'partial' }
+    );
+    const config = { ...baseConfig, policy: { deny: ['fetch'] } };
+
+    const result = await runToolLoop('get', config, client as any, llm, tools);
+
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+    expect(client.callTool).toHaveBeenCalledWith({ name: 'lookup', arguments: { key: 'a' } }, undefined, expect.any(Object));
+    expect(result.results[0]).toMatchObject({
+      tool: 'fetch',
+      blocked: 'denied',
+      error: 'Tool fetch is denied by policy'
+    });
+  });
+
+  test('should only run tools requiring confirmation once confirmed', async () => {
+    const plan = { toolCalls: [{ name: 'fetch', arguments: { id: '1' } }], done: true };
+    const config = { ...baseConfig, policy: { confirm: ['fe*'] } };
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [] })
+    };
+
+    const unconfirmed = await runToolLoop('get', config, client as any, scripted(plan), tools);
+    expect(unconfirmed.results[0].blocked).toBe('confirmation_required');
+    expect(client.callTool).not.toHaveBeenCalled();
+
+    const confirmed = await runToolLoop('get', config, client as any, scripted(plan), tools, { confirmed: true });
+    expect(confirmed.results[0].blocked).toBeUndefined();
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+  });
+
+  test('should read resources under a proposed policy without confirmation', async () => {
+    const config = { ...baseConfig, policy: proposePolicy([{ name: 'fetch', annotations: { readOnlyHint: false } }]) };
+    const operations = [...tools, ...createResourceTools([{ uri: 'notes://index', name: 'index' }], [], [])];
+    const client = {
+      callTool: jest.fn(),
+      readResource: jest.fn().mockResolvedValue({ contents: [{ uri: 'notes://index', text: 'all notes' }] })
+    };
+    const llm = scripted({
+      toolCalls: [
+        { name: READ_RESOURCE_TOOL, arguments: { uri: 'notes://index' } },
+        { name: 'fetch', arguments: { id: '1' } }
+      ],
+      done: true
+    });
+
+    const result = await runToolLoop('list notes', config, client as any, llm, operations);
+
+    expect(client.readResource).toHaveBeenCalledWith({ uri: 'notes://index' }, expect.any(Object));
+    expect(result.results[0].blocked).toBeUndefined();
+    expect(result.results[0].result).toEqual([{ uri: 'notes://index', text: 'all notes' }]);
+    expect(result.results[1].blocked).toBe('confirmation_required');
+  });
+
+  test('should plan the first step without calling tools', async () => {
+    const client = { callTool: jest.fn() };
+    const llm = scripted(
+      { toolCalls: [{ name: 'lookup', arguments: { key: 1 } }] },
+      { toolCalls: [{ name: 'lookup', arguments: { key: 'a' } }], explanation: 'Look it up.' }
+    );
+
+    const { plan } = await planToolCalls('get a', baseConfig, llm, tools);
+
+    expect(plan.toolCalls).toEqual([{ name: 'lookup', arguments: { key: 'a' } }]);
+    expect(plan.explanation).toBe('Look it up.');
+    expect(client.callTool).not.toHaveBeenCalled();
+  });
+
+  test('should run an approved plan exactly as planned', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'id-42' }] })
+    };
+
+    const llm = scripted();
+
+    const result = await runApprovedPlan(
+      { query: 'get a', toolCalls: [{ name: 'lookup', arguments: { key: 'a' } }], explanation: 'Look it up.', done: true },
+      baseConfig,
+      client as any,
+      llm,
+      tools
+    );
+
+    expect(client.callTool).toHaveBeenCalledWith({ name: 'lookup', arguments: { key: 'a' } }, undefined, expect.any(Object));
+    expect(result).toMatchObject({ explanation: 'Look it up.', steps: 1, stopReason: 'done' });
+  });
+
+  test('should keep planning after an approved plan the LLM had not finished', async () => {
+    const client = {
+      callTool: jest.fn()
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'id-42' }] })
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'the record' }] })
+    };
+    const llm = scripted(
+      { toolCalls: [{ name: 'fetch', arguments: { id: 'id-42' } }], explanation: 'Fetch the record.' },
+      { toolCalls: [], done: true, answer: 'the record' }
+    );
+
+    const result = await runApprovedPlan(
+      { query: 'get a', toolCalls: [{ name: 'lookup', arguments: { key: 'a' } }], explanation: 'Look it up.' },
+      baseConfig,
+      client as any,
+      llm,
+      tools
+    );
+
+    expect(client.callTool).toHaveBeenLastCalledWith({ name: 'fetch', arguments: { id: 'id-42' } }, undefined, expect.any(Object));
+    expect(result.results.map(record => [record.step, record.tool])).toEqual([[1, 'lookup'], [2, 'fetch']]);
+    expect(result).toMatchObject({ answer: 'the record', explanation: 'Look it up. Fetch the record.', steps: 3, stopReason: 'done' });
+  });
+
+  test('should reject approved plans that no longer match the tools', async () => {
+    const client = { callTool: jest.fn() };
+
+    await expect(runApprovedPlan(
+      { query: 'get a', toolCalls: [{ name: 'removed_tool', arguments: {} }] },
+      baseConfig,
+      client as any,
+      scripted(),
+      tools
+    )).rejects.toThrow('Plan is no longer valid: removed_tool: Unknown tool: removed_tool');
+    expect(client.callTool).not.toHaveBeenCalled();
+  });
+
+  test('should resolve per-tool timeouts before the default', () => {
+    const execution = { toolTimeoutMs: 1000, toolTimeouts: { 'slow_*': 60000, fetch: 5000 } };
+
+    expect(resolveToolTimeout('slow_report', execution)).toBe(60000);
+    expect(resolveToolTimeout('fetch', execution)).toBe(5000);
+    expect(resolveToolTimeout('lookup', execution)).toBe(1000);
+    expect(resolveToolTimeout('lookup', undefined)).toBeUndefined();
+  });
+
+  test('should pass the cancellation signal and tool timeout to the wrapped server', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [] })
+    };
+    const controller = new AbortController();
+    const config = { ...baseConfig, execution: { toolTimeoutMs: 1234 } };
+    const llm = scripted({ toolCalls: [{ name: 'lookup', arguments: { key: 'a' } }], done: true });
+
+    await runToolLoop('get', config, client as any, llm, tools, { signal: controller.signal });
+
+    expect(client.callTool).toHaveBeenCalledWith(
+      { name: 'lookup', arguments: { key: 'a' } },
+      undefined,
+      { signal: controller.signal, timeout: 1234 }
+    );
+  });
+
+  test('should stop the loop once cancelled', async () => {
+    const controller = new AbortController();
+    const client = {
+      callTool: jest.fn(async () => {
+        controller.abort(new Error('cancelled by host'));
+        throw new Error('request aborted');
+      })
+    };
+    const llm = scripted({ toolCalls: [{ name: 'lookup', arguments: {} }, { name: 'fetch', arguments: {} }] });
+
+    await expect(runToolLoop('get', baseConfig, client as any, llm, tools, { signal: controller.signal }))
+      .rejects.toThrow('cancelled by host');
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+  });
+
+  test('should report progress after each tool call', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [] })
+    };
+    const onProgress = jest.fn();
+    const llm = scripted(
+      { toolCalls: [{ name: 'lookup', arguments: {} }, { name: 'fetch', arguments: {} }] },
+      { done: true, answer: 'ok' }
+    );
+
+    await runToolLoop('get', baseConfig, client as any, llm, tools, { onProgress });
+
+    expect(onProgress.mock.calls.map(([record]) => record.tool)).toEqual(['lookup', 'fetch']);
+  });
+
+  test('should run independent calls concurrently and keep plan order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const client = {
+      callTool: jest.fn(async ({ arguments: args }: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later calls finish first
+        await new Promise(resolve => setTimeout(resolve, 30 - Number(args.key) * 10));
+        inFlight--;
+        return { content: [{ type: 'text', text: `day ${args.key}` }] };
+      })
+    };
+    const llm = scripted({
+      toolCalls: ['0', '1', '2'].map(key => ({ name: 'lookup', arguments: { key } })),
+      done: true
+    });
+    const config = { ...baseConfig, execution: { maxConcurrency: 2 } };
+
+    const result = await runToolLoop('get days', config, client as any, llm, tools);
+
+    expect(maxInFlight).toBe(2);
+    expect(result.results.map(record => record.result)).toEqual([
+      [{ type: 'text', text: 'day 0' }],
+      [{ type: 'text', text: 'day 1' }],
+      [{ type: 'text', text: 'day 2' }]
+    ]);
+  });
+
+  test('should run dependent calls after their dependencies and skip them on failure', async () => {
+    const order: string[] = [];
+    const client = {
+      callTool: jest.fn(async ({ name, arguments: args }: any) => {
+        await new Promise(resolve => setTimeout(resolve, name === 'lookup' ? 20 : 0));
+        order.push(`${name}:${args.key ?? args.id}`);
+        if (args.key === 'bad') throw new Error('not found');
+        return { content: [] };
+      })
+    };
+    const llm = scripted({
+      toolCalls: [
+        { id: 'first', name: 'lookup', arguments: { key: 'a' } },
+        { name: 'fetch', arguments: { id: 'after-a' }, dependsOn: ['first'] },
+        { id: 'broken', name: 'lookup', arguments: { key: 'bad' } },
+        { name: 'fetch', arguments: { id: 'after-bad' }, dependsOn: ['broken'] }
+      ],
+      done: true
+    });
+
+    const result = await runToolLoop('get', baseConfig, client as any, llm, tools);
+
+    expect(order.indexOf('fetch:after-a')).toBeGreaterThan(order.indexOf('lookup:a'));
+    expect(order).not.toContain('fetch:after-bad');
+    expect(result.results[3].error).toBe('Skipped because dependency broken (lookup) failed');
+  });
+
+  test('should send plans with circular dependencies back for correction', async () => {
+    const client = {
+      callTool: jest.fn().mockResolvedValue({ content: [] })
+    };
+    const llm = scripted(
+      {
+        toolCalls: [
+          { id: 'a', name: 'lookup', arguments: {}, dependsOn: ['b'] },
+          { id: 'b', name: 'fetch', arguments: {}, dependsOn: ['a'] }
+        ]
+      },
+      { toolCalls: [{ id: 'a', name: 'lookup', arguments: {} }], done: true }
+    );
+
+    const result = await runToolLoop('get', baseConfig, client as any, llm, tools);
+
+    expect(client.callTool).toHaveBeenCalledTimes(1);
+    expect(result.results.map(record => record.tool)).toEqual(['lookup']);
+  });
+
+  test('should fail on responses that are not JSON', async () => {
+    const client = { callTool: jest.fn() };
+    const llm = createLLMRuntime({ provider: 'scripted', responses: ['not json'] });
+
+    await expect(runToolLoop('q', baseConfig, client as any, llm, tools)).rejects.toThrow();
+    expect(client.callTool).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for result caching
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_CACHE_TTL_MS,
+  createCacheStore,
+  createCacheSession,
+  callCacheKey,
+  resolveCacheTtl,
+  invalidateCapability
+} from '../../src/cache.js';
+
+describe('Cache', () => {
+  test('should expire entries after their TTL', async () => {
+    const store = await createCacheStore();
+    store.set('call:a', 1, 10);
+    store.set('call:b', 2, 60000);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(store.get('call:a')).toBeUndefined();
+    expect(store.get('call:b')).toBe(2);
+  });
+
+  test('should clear entries by prefix', async () => {
+    const store = await createCacheStore();
+    store.set('list:tools', [], 60000);
+    store.set('call:echo:{}', 'x', 60000);
+
+    store.clear('list:');
+
+    expect(store.get('list:tools')).toBeUndefined();
+    expect(store.get('call:echo:{}')).toBe('x');
+  });
+
+  test('should invalidate entries a list change makes stale', async () => {
+    const store = await createCacheStore();
+    store.set('list:resources', [], 60000);
+    store.set('list:resourceTemplates', [], 60000);
+    store.set('list:tools', [], 60000);
+    store.set(callCacheKey('resources/read', { uri: 'file:///a' }), 'a', 60000);
+    store.set(callCacheKey('search', {}), 'b', 60000);
+
+    invalidateCapability(store, 'resources');
+
+    expect(store.get('list:resources')).toBeUndefined();
+    expect(store.get('list:resourceTemplates')).toBeUndefined();
+    expect(store.get(callCacheKey('resources/read', { uri: 'file:///a' }))).toBeUndefined();
+    expect(store.get('list:tools')).toEqual([]);
+    expect(store.get(callCacheKey('search', {}))).toBe('b');
+
+    invalidateCapability(store, 'tools');
+
+    expect(store.get(callCacheKey('search', {}))).toBeUndefined();
+  });
+
+  test('should count hits and misses per session', async () => {
+    const store = await createCacheStore();
+    const session = createCacheSession(store);
+    const load = jest.fn().mockResolvedValue('value');
+
+    await session.fetch('call:a', 60000, load);
+    await session.fetch('call:a', 60000, load);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(session.stats).toEqual({ hits: 1, misses: 1 });
+    expect(createCacheSession(store).stats).toEqual({ hits: 0, misses: 0 });
+  });
+
+  test('should not cache values rejected by shouldCache', async () => {
+    const session = createCacheSession(await createCacheStore());
+    const load = jest.fn(async () => ({ isError: true }));
+
+    await session.fetch('call:a', 60000, load, result => !result.isError);
+    await session.fetch('call:a', 60000, load, result => !result.isError);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('should key calls on normalized arguments', () => {
+    expect(callCacheKey('search', { q: 'x', opts: { b: 1, a: 2 } }))
+      .toBe(callCacheKey('search', { opts: { a: 2, b: 1 }, q: 'x' }));
+    expect(callCacheKey('search', { q: 'x' })).not.toBe(callCacheKey('search', { q: 'y' }));
+  });
+
+  test('should only cache read-only operations unless a tool TTL is set', () => {
+    const settings = { ttlMs: 1000, toolTtls: { 'get_*': 5000, 'list_users': 0, 'fetch_page': 2000 } };
+
+    expect(resolveCacheTtl({ name: 'search', annotations: { readOnlyHint: true } }, settings)).toBe(1000);
+    expect(resolveCacheTtl({ name: 'resources/read' }, {})).toBe(DEFAULT_CACHE_TTL_MS);
+    expect(resolveCacheTtl({ name: 'delete_user' }, settings)).toBeUndefined();
+    expect(resolveCacheTtl({ name: 'get_user' }, settings)).toBe(5000);
+    expect(resolveCacheTtl({ name: 'fetch_page' }, settings)).toBe(2000);
+    expect(resolveCacheTtl({ name: 'list_users', annotations: { readOnlyHint: true } }, settings)).toBeUndefined();
+  });
+
+  test('should persist entries to disk', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-test-'));
+    const filePath = path.join(dir, 'cache.json');
+
+    try {
+      const store = await createCacheStore(filePath);
+      const session = createCacheSession(store);
+      await session.fetch('call:a', 60000, async () => ({ content: 'saved' }));
+      await session.fetch('call:b', 1, async () => ({ content: 'short-lived' }));
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const reloaded = await createCacheStore(filePath);
+      expect(reloaded.get('call:a')).toEqual({ content: 'saved' });
+      expect(reloaded.get('call:b')).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit tests for concurrency limiting
+ */
+
+import { createLimiter } from '../../src/concurrency.js';
+
+describe('Concurrency Limiter', () => {
+  const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+  test('should never exceed the concurrency limit', async () => {
+    const limit = createLimiter(2);
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const task = async (value: number) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight--;
+      return value;
+    };
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(value => limit(() => task(value))));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('should free the slot when a task fails', async () => {
+    const limit = createLimiter(1);
+
+    await expect(limit(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(limit(async () => 'next')).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for configuration management
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CONFIG_DIR_ENV,
+  resolveConfigDir,
+  listConfigs,
+  findConfig,
+  validateConfigFile
+} from '../../src/configs.js';
+
+describe('Config Management', () => {
+  const createConfig = (name: string, analyzedAt: string) => ({
+    name,
+    description: `${name} description`,
+    serverPath: 'node',
+    args: ['server.js'],
+    systemPrompt: 'Test prompt',
+    capabilities: { tools: [{ name: 'read' }], resources: [], prompts: [] },
+    metadata: { analyzedAt, toolCount: 1, resourceCount: 0, promptCount: 0 }
+  });
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'configs-test-'));
+    await fs.writeFile(path.join(dir, 'files-1.json'), JSON.stringify(createConfig('File Expert', '2024-01-01T00:00:00.000Z')));
+    await fs.writeFile(path.join(dir, 'files-2.json'), JSON.stringify(createConfig('File Expert', '2024-02-01T00:00:00.000Z')));
+    await fs.writeFile(path.join(dir, 'calendar.json'), JSON.stringify(createConfig('Calendar Expert', '2024-01-15T00:00:00.000Z')));
+    await fs.writeFile(path.join(dir, 'broken.json'), JSON.stringify({ name: 'Broken' }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should resolve the configuration directory from the option, then the environment', () => {
+    const previous = process.env[CONFIG_DIR_ENV];
+    process.env[CONFIG_DIR_ENV] = '/srv/configs';
+
+    try {
+      expect(resolveConfigDir('/explicit')).toBe('/explicit');
+      expect(resolveConfigDir()).toBe('/srv/configs');
+      delete process.env[CONFIG_DIR_ENV];
+      expect(resolveConfigDir()).toBe(path.resolve('configs'));
+    } finally {
+      if (previous === undefined) delete process.env[CONFIG_DIR_ENV];
+      else process.env[CONFIG_DIR_ENV] = previous;
+    }
+  });
+
+  test('should list configurations and report invalid ones', async () => {
+    const { configs, invalid } = await listConfigs(dir);
+
+    expect(configs.map(config => [config.name, config.analyzedAt])).toEqual([
+      ['Calendar Expert', '2024-01-15T00:00:00.000Z'],
+      ['File Expert', '2024-02-01T00:00:00.000Z'],
+      ['File Expert', '2024-01-01T00:00:00.000Z']
+    ]);
+    expect(configs[0]).toMatchObject({ toolName: 'calendar-expert', server: 'node server.js', toolCount: 1 });
+    expect(invalid).toEqual([{ path: path.join(dir, 'broken.json'), error: expect.stringContaining('serverPath: Required') }]);
+  });
+
+  test('should treat a missing directory as empty', async () => {
+    await expect(listConfigs(path.join(dir, 'missing'))).resolves.toEqual({ configs: [], invalid: [] });
+  });
+
+  test('should find the latest configuration by expert or tool name', async () => {
+    await expect(findConfig('File Expert', dir)).resolves.toBe(path.join(dir, 'files-2.json'));
+    await expect(findConfig('calendar-expert', dir)).resolves.toBe(path.join(dir, 'calendar.json'));
+    await expect(findConfig(path.join(dir, 'files-1.json'), dir)).resolves.toBe(path.join(dir, 'files-1.json'));
+    await expect(findConfig('Weather Expert', dir)).rejects.toThrow(`No configuration named "Weather Expert" in ${dir}`);
+  });
+
+  test('should validate configuration files with readable errors', async () => {
+    const valid = await validateConfigFile(path.join(dir, 'calendar.json'));
+    expect(valid.valid).toBe(true);
+
+    await expect(validateConfigFile(path.join(dir, 'broken.json'))).resolves.toEqual({
+      valid: false,
+      errors: expect.arrayContaining(['serverPath: Required', 'metadata: Required'])
+    });
+
+    await fs.writeFile(path.join(dir, 'syntax.json'), '{ "name": ');
+    const syntax = await validateConfigFile(path.join(dir, 'syntax.json'));
+    expect(syntax.valid).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the configuration drift check and incremental re-analysis
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { connectToServer, discoverCapabilities, analyzeWithLLM, reviseWithLLM } from '../../src/analyzer.js';
+import { diffConfig, reanalyzeConfig } from '../../src/diff.js';
+import { ServerCapabilities } from '../../src/types.js';
+
+jest.mock('../../src/analyzer.js');
+
+const mockConnect = connectToServer as jest.MockedFunction<typeof connectToServer>;
+const mockDiscover = discoverCapabilities as jest.MockedFunction<typeof discoverCapabilities>;
+const mockRevise = reviseWithLLM as jest.MockedFunction<typeof reviseWithLLM>;
+const mockAnalyze = analyzeWithLLM as jest.MockedFunction<typeof analyzeWithLLM>;
+
+describe('Config Diff', () => {
+  const stored: ServerCapabilities = {
+    tools: [{ name: 'read', inputSchema: { type: 'object' } }],
+    resources: [],
+    resourceTemplates: [],
+    prompts: []
+  };
+  const config = {
+    name: 'Test Expert',
+    description: 'Test description',
+    serverPath: 'node',
+    args: ['server.js'],
+    env: { TOKEN: '${env:TOKEN}' },
+    systemPrompt: 'Test prompt',
+    llm: { provider: 'scripted', responses: [] },
+    capabilities: stored,
+    metadata: { analyzedAt: '2024-01-01T00:00:00.000Z', toolCount: 1, resourceCount: 0, promptCount: 0 }
+  };
+  const live: ServerCapabilities = {
+    tools: [
+      { name: 'read', inputSchema: { type: 'object', required: ['path'] } },
+      { name: 'write', inputSchema: { type: 'object' } }
+    ],
+    resources: [],
+    resourceTemplates: [],
+    prompts: []
+  };
+
+  let dir: string;
+  let configPath: string;
+  const close = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-test-'));
+    configPath = path.join(dir, 'config.json');
+    await fs.writeFile(configPath, JSON.stringify(config));
+    const client = { close, getServerVersion: () => ({ name: 'test-server', version: '1.0.0' }), getInstructions: () => undefined };
+    mockConnect.mockResolvedValue({ client: client as any, transport: {} as any });
+    mockDiscover.mockResolvedValue(live);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should report drift without touching the configuration', async () => {
+    const result = await diffConfig(configPath);
+
+    expect(result.drift.tools).toEqual({
+      added: ['write'],
+      removed: [],
+      changed: [{ key: 'read', fields: ['inputSchema.required'] }]
+    });
+    expect(result.updated).toBe(false);
+    expect(JSON.parse(await fs.readFile(configPath, 'utf-8'))).toEqual(config);
+    expect(close).toHaveBeenCalled();
+  });
+
+  test('should rewrite the capability snapshot on update', async () => {
+    const result = await diffConfig(configPath, { update: true });
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+    expect(result.updated).toBe(true);
+    expect(saved.capabilities).toEqual(live);
+    expect(saved.metadata).toEqual({ ...config.metadata, toolCount: 2 });
+    expect(saved.env).toEqual({ TOKEN: '${env:TOKEN}' });
+  });
+
+  test('should leave a matching configuration alone', async () => {
+    mockDiscover.mockResolvedValue(stored);
+
+    const result = await diffConfig(configPath, { update: true });
+
+    expect(result.updated).toBe(false);
+  });
+
+  test('should revise unlocked fields and back up the previous version', async () => {
+    await fs.writeFile(configPath, JSON.stringify({ ...config, locked: ['systemPrompt'] }));
+    mockRevise.mockResolvedValue({ expertDescription: 'Revised description', systemPrompt: 'Revised prompt' });
+
+    const result = await reanalyzeConfig(configPath);
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+    expect(mockRevise).toHaveBeenCalledWith(
+      expect.objectContaining({ systemPrompt: 'Test prompt' }),
+      result.drift,
+      live,
+      ['description'],
+      expect.anything()
+    );
+    expect(result).toMatchObject({ updated: true, revised: ['description'], locked: ['systemPrompt'] });
+    expect(saved.description).toBe('Revised description');
+    expect(saved.systemPrompt).toBe('Test prompt');
+    expect(saved.capabilities).toEqual(live);
+    expect(saved.metadata.analyzedAt).not.toBe(config.metadata.analyzedAt);
+    expect(JSON.parse(await fs.readFile(result.backupPath!, 'utf-8')).capabilities).toEqual(config.capabilities);
+  });
+
+  test('should not call the LLM when every field is locked', async () => {
+    mockRevise.mockClear();
+    await fs.writeFile(configPath, JSON.stringify({ ...config, locked: ['description', 'systemPrompt'] }));
+
+    const result = await reanalyzeConfig(configPath);
+
+    expect(mockRevise).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ updated: true, revised: [] });
+  });
+
+  test('should leave an up-to-date configuration unchanged', async () => {
+    mockDiscover.mockResolvedValue(stored);
+
+    const result = await reanalyzeConfig(configPath);
+
+    expect(result.updated).toBe(false);
+    await expect(fs.access(`${configPath}.bak`)).rejects.toThrow();
+  });
+
+  test('should replace template-generated text with an LLM analysis without drift', async () => {
+    mockDiscover.mockResolvedValue(stored);
+    await fs.writeFile(configPath, JSON.stringify({ ...config, metadata: { ...config.metadata, generatedBy: 'template' } }));
+    mockAnalyze.mockResolvedValue({
+      expertName: 'Ignored',
+      expertDescription: 'LLM description',
+      systemPrompt: 'LLM prompt',
+      capabilities: { tools: [], resources: [], prompts: [] }
+    });
+
+    const result = await reanalyzeConfig(configPath);
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+    expect(result).toMatchObject({ updated: true, enriched: true, revised: ['description', 'systemPrompt'] });
+    expect(saved).toMatchObject({ name: 'Test Expert', description: 'LLM description', systemPrompt: 'LLM prompt' });
+    expect(saved.metadata.generatedBy).toBe('llm');
+  });
+
+  test('should regenerate unlocked fields from templates in template mode', async () => {
+    mockRevise.mockClear();
+    await fs.writeFile(configPath, JSON.stringify({ ...config, locked: ['description'] }));
+
+    const result = await reanalyzeConfig(configPath, { template: true });
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+    expect(mockRevise).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ updated: true, enriched: false, revised: ['systemPrompt'] });
+    expect(saved.description).toBe('Test description');
+    expect(saved.systemPrompt).toContain('- read\n- write (may modify data)\n');
+    expect(saved.metadata.generatedBy).toBe('template');
+  });
+});
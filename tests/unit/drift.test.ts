@@ -0,0 +1,90 @@
+/**
+ * Unit tests for capability drift detection
+ */
+
+import {
+  ToolListChangedNotificationSchema,
+  PromptListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  detectDrift,
+  hasDrift,
+  describeDrift,
+  listCapabilities,
+  watchListChanges
+} from '../../src/drift.js';
+import { ServerCapabilities } from '../../src/types.js';
+
+describe('Capability Drift', () => {
+  const stored: ServerCapabilities = {
+    tools: [
+      { name: 'read_file', inputSchema: { type: 'object', properties: { path: { type: 'string' } } } },
+      { name: 'delete_file', inputSchema: { type: 'object' } }
+    ],
+    resources: [{ uri: 'file:///notes.md', name: 'notes' }],
+    resourceTemplates: [{ uriTemplate: 'file:///{path}', name: 'file' }],
+    prompts: []
+  };
+
+  test('should report added, removed and changed entries', () => {
+    const live: ServerCapabilities = {
+      tools: [
+        { name: 'read_file', inputSchema: { type: 'object', properties: { path: { type: 'string' }, encoding: { type: 'string' } } } },
+        { name: 'write_file', inputSchema: { type: 'object' } }
+      ],
+      resources: [{ name: 'notes', uri: 'file:///notes.md' }],
+      resourceTemplates: [{ uriTemplate: 'file:///{path}', name: 'file', mimeType: 'text/plain' }],
+      prompts: []
+    };
+
+    const drift = detectDrift(stored, live);
+
+    expect(drift.tools).toEqual({
+      added: ['write_file'],
+      removed: ['delete_file'],
+      changed: [{ key: 'read_file', fields: ['inputSchema.properties.encoding'] }]
+    });
+    expect(drift.resources).toEqual({ added: [], removed: [], changed: [] });
+    expect(hasDrift(drift)).toBe(true);
+    expect(describeDrift(drift)).toEqual([
+      'tools: added write_file; removed delete_file; changed read_file (inputSchema.properties.encoding)',
+      'resourceTemplates: changed file:///{path} (mimeType)'
+    ]);
+  });
+
+  test('should find no drift in an unchanged server', () => {
+    const drift = detectDrift(stored, JSON.parse(JSON.stringify(stored)));
+
+    expect(hasDrift(drift)).toBe(false);
+    expect(describeDrift(drift)).toEqual([]);
+  });
+
+  test('should list capabilities, treating unsupported lists as empty', async () => {
+    const client = {
+      listTools: jest.fn().mockResolvedValue({ tools: stored.tools }),
+      listResources: jest.fn().mockRejectedValue(new Error('Method not found')),
+      listResourceTemplates: jest.fn().mockResolvedValue({ resourceTemplates: stored.resourceTemplates }),
+      listPrompts: jest.fn().mockResolvedValue({ prompts: [] })
+    };
+
+    await expect(listCapabilities(client as any)).resolves.toEqual({
+      tools: stored.tools,
+      resources: [],
+      resourceTemplates: stored.resourceTemplates,
+      prompts: []
+    });
+  });
+
+  test('should report list_changed notifications by kind', async () => {
+    const handlers = new Map<unknown, () => Promise<void>>();
+    const client = { setNotificationHandler: jest.fn((schema, handler) => handlers.set(schema, handler)) };
+    const onChange = jest.fn();
+
+    watchListChanges(client as any, onChange);
+    await handlers.get(ToolListChangedNotificationSchema)!();
+    await handlers.get(PromptListChangedNotificationSchema)!();
+
+    expect(client.setNotificationHandler).toHaveBeenCalledTimes(3);
+    expect(onChange.mock.calls).toEqual([['tools'], ['prompts']]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for server inspection
+ */
+
+import { connectToServer } from '../../src/analyzer.js';
+import { estimateTokens, inspectServer, renderInspection } from '../../src/inspect.js';
+import { ServerCapabilities } from '../../src/types.js';
+
+jest.mock('../../src/analyzer.js');
+
+const mockConnect = connectToServer as jest.MockedFunction<typeof connectToServer>;
+
+describe('Server Inspection', () => {
+  const capabilities: ServerCapabilities = {
+    tools: [
+      {
+        name: 'read_note',
+        description: 'Read a note',
+        inputSchema: { type: 'object', properties: { path: { type: 'string' }, lines: { type: 'number' } }, required: ['path'] },
+        annotations: { readOnlyHint: true }
+      }
+    ],
+    resources: [{ uri: 'notes://index', name: 'index', description: 'All notes | sorted' }],
+    resourceTemplates: [{ uriTemplate: 'notes://{path}', name: 'note' }],
+    prompts: []
+  };
+
+  const close = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    const client = {
+      listTools: jest.fn().mockResolvedValue({ tools: capabilities.tools }),
+      listResources: jest.fn().mockResolvedValue({ resources: capabilities.resources }),
+      listResourceTemplates: jest.fn().mockResolvedValue({ resourceTemplates: capabilities.resourceTemplates }),
+      listPrompts: jest.fn().mockRejectedValue(new Error('Method not found')),
+      getServerVersion: () => ({ name: 'notes', version: '1.2.0' }),
+      getInstructions: () => 'Paths are relative.',
+      close
+    };
+    mockConnect.mockResolvedValue({ client: client as any, transport: {} as any });
+  });
+
+  test('should estimate tokens from the JSON size', () => {
+    expect(estimateTokens({ name: 'a' })).toBe(3);
+  });
+
+  test('should report server info, capabilities and tool sizes', async () => {
+    const report = await inspectServer({ serverPath: 'node', args: ['notes.js'] });
+
+    expect(report).toEqual({
+      server: { name: 'notes', version: '1.2.0' },
+      instructions: 'Paths are relative.',
+      capabilities,
+      toolTokens: { read_note: estimateTokens(capabilities.tools[0]) },
+      totalToolTokens: estimateTokens(capabilities.tools[0])
+    });
+    expect(close).toHaveBeenCalled();
+  });
+
+  test('should render tables with parameters and hints', async () => {
+    const output = renderInspection(await inspectServer({ serverPath: 'node', args: [] }), 'table');
+
+    expect(output).toContain('Server: notes 1.2.0');
+    expect(output).toMatch(/read_note +\d+ +read-only +path: string, lines\?: number +Read a note/);
+    expect(output).toContain('notes://{path}');
+    expect(output).toContain('Prompts (0): none');
+  });
+
+  test('should render Markdown with input schemas and escaped cells', async () => {
+    const output = renderInspection(await inspectServer({ serverPath: 'node', args: [] }), 'markdown');
+
+    expect(output).toContain('# notes 1.2.0');
+    expect(output).toContain('## Instructions\n\nPaths are relative.');
+    expect(output).toContain(`\`\`\`json\n${JSON.stringify(capabilities.tools[0].inputSchema, null, 2)}\n\`\`\``);
+    expect(output).toContain('| notes://index | index |  | All notes \\| sorted |');
+  });
+
+  test('should render JSON as the full report', async () => {
+    const report = await inspectServer({ serverPath: 'node', args: [] });
+
+    expect(JSON.parse(renderInspection(report, 'json'))).toEqual(report);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for wrapper shutdown handling
+ */
+
+import { createLifecycle } from '../../src/lifecycle.js';
+
+describe('Lifecycle', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should run cleanup steps in reverse order and exit', async () => {
+    const exit = jest.fn();
+    const lifecycle = createLifecycle(100, exit);
+    const order: string[] = [];
+
+    lifecycle.onShutdown('wrapped', () => {
+      order.push('wrapped');
+    });
+    lifecycle.onShutdown('exposed', async () => {
+      order.push('exposed');
+    });
+
+    await lifecycle.shutdown('SIGTERM');
+
+    expect(order).toEqual(['exposed', 'wrapped']);
+    expect(lifecycle.signal.aborted).toBe(true);
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  test('should wait for in-flight requests before closing', async () => {
+    const exit = jest.fn();
+    const lifecycle = createLifecycle(1000, exit);
+    const order: string[] = [];
+
+    lifecycle.onShutdown('servers', () => {
+      order.push('closed');
+    });
+    void lifecycle.track(new Promise(resolve => setTimeout(resolve, 20)).then(() => {
+      order.push('request finished');
+    }));
+
+    await lifecycle.shutdown('stdin closed');
+
+    expect(order).toEqual(['request finished', 'closed']);
+  });
+
+  test('should abort requests that outlive the drain timeout', async () => {
+    const exit = jest.fn();
+    const lifecycle = createLifecycle(10, exit);
+    const pending = lifecycle.track(new Promise((_resolve, reject) => {
+      lifecycle.signal.addEventListener('abort', () => reject(lifecycle.signal.reason));
+    }));
+
+    await lifecycle.shutdown('SIGHUP');
+
+    await expect(pending).rejects.toThrow('Wrapper is shutting down (SIGHUP)');
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  test('should shut down only once and keep going when a cleanup step fails', async () => {
+    const exit = jest.fn();
+    const lifecycle = createLifecycle(100, exit);
+    const cleanup = jest.fn();
+
+    lifecycle.onShutdown('wrapped', cleanup);
+    lifecycle.onShutdown('broken', () => {
+      throw new Error('already closed');
+    });
+
+    await Promise.all([
+      lifecycle.shutdown('uncaught exception', 1),
+      lifecycle.shutdown('SIGINT')
+    ]);
+
+    expect(lifecycle.isShuttingDown()).toBe(true);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
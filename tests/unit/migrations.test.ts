@@ -0,0 +1,99 @@
+/**
+ * Unit tests for configuration schema migrations
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateConfig,
+  migrateConfigFile,
+  readSchemaVersion
+} from '../../src/migrations.js';
+
+describe('Config Migrations', () => {
+  const legacyConfig = {
+    name: 'Test Expert',
+    description: 'Test description',
+    serverPath: 'node',
+    args: ['server.js'],
+    systemPrompt: 'Test prompt',
+    capabilities: { tools: [], resources: [], prompts: [] },
+    metadata: { analyzedAt: '2024-01-01T00:00:00.000Z', toolCount: 0, resourceCount: 0, promptCount: 0 }
+  };
+  const upgraded = { capabilities: { ...legacyConfig.capabilities, resourceTemplates: [] } };
+
+  test('should treat unversioned configurations as version 0', () => {
+    expect(readSchemaVersion(legacyConfig)).toBe(0);
+    expect(() => readSchemaVersion({ schemaVersion: '1' })).toThrow('Invalid schemaVersion: "1"');
+  });
+
+  test('should upgrade old configurations to the current version', () => {
+    const result = migrateConfig(legacyConfig);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.applied).toHaveLength(CURRENT_SCHEMA_VERSION);
+    expect(result.config).toEqual({ ...legacyConfig, ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION });
+  });
+
+  test('should add resource templates and default tool input schemas in version 2', () => {
+    const result = migrateConfig({
+      ...legacyConfig,
+      schemaVersion: 1,
+      capabilities: { tools: [{ name: 'read' }, { name: 'write', inputSchema: { type: 'object', required: ['path'] } }], resources: [], prompts: [] }
+    });
+
+    expect(result.applied).toEqual(['Add resource templates and default tool input schemas']);
+    expect(result.config.capabilities).toEqual({
+      tools: [{ name: 'read', inputSchema: { type: 'object' } }, { name: 'write', inputSchema: { type: 'object', required: ['path'] } }],
+      resources: [],
+      resourceTemplates: [],
+      prompts: []
+    });
+  });
+
+  test('should leave current configurations alone', () => {
+    const current = { ...legacyConfig, ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    expect(migrateConfig(current)).toEqual({ config: current, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] });
+  });
+
+  test('should reject configurations from a newer version', () => {
+    expect(() => migrateConfig({ ...legacyConfig, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+      .toThrow(`is newer than the supported version ${CURRENT_SCHEMA_VERSION}`);
+    expect(() => migrateConfig([])).toThrow('Configuration must be a JSON object');
+  });
+
+  describe('migrateConfigFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test('should rewrite old files with the version first', async () => {
+      const configPath = path.join(dir, 'config.json');
+      await fs.writeFile(configPath, JSON.stringify(legacyConfig));
+
+      await migrateConfigFile(configPath);
+      const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+      expect(Object.keys(saved)[0]).toBe('schemaVersion');
+      expect(saved).toEqual({ ...legacyConfig, ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION });
+    });
+
+    test('should not write files that would be invalid', async () => {
+      const configPath = path.join(dir, 'broken.json');
+      const original = JSON.stringify({ name: 'Broken' });
+      await fs.writeFile(configPath, original);
+
+      await expect(migrateConfigFile(configPath)).rejects.toThrow('Failed to migrate configuration: description: Required');
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(original);
+    });
+  });
+});
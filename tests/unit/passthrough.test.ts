@@ -0,0 +1,37 @@
+/**
+ * Unit tests for raw tool passthrough selection
+ */
+
+import { matchesGlob, isToolSelected, selectPassthroughTools } from '../../src/passthrough.js';
+
+describe('Tool Passthrough', () => {
+  const tools = ['get_issue', 'list_issues', 'delete_issue', 'search'].map(name => ({
+    name,
+    inputSchema: { type: 'object' as const, properties: {} }
+  }));
+
+  test('should match glob patterns', () => {
+    expect(matchesGlob('get_issue', 'get_*')).toBe(true);
+    expect(matchesGlob('get_issue', '*_issue')).toBe(true);
+    expect(matchesGlob('search', 'searc?')).toBe(true);
+    expect(matchesGlob('search.v2', 'search?v2')).toBe(true);
+    expect(matchesGlob('searchv2', 'search.v2')).toBe(false);
+    expect(matchesGlob('list_issues', 'list_issue')).toBe(false);
+  });
+
+  test('should apply the allowlist and let the denylist win', () => {
+    expect(isToolSelected('get_issue', { allow: ['*_issue'], deny: ['delete_*'] })).toBe(true);
+    expect(isToolSelected('delete_issue', { allow: ['*_issue'], deny: ['delete_*'] })).toBe(false);
+    expect(isToolSelected('search', { deny: ['delete_*'] })).toBe(true);
+  });
+
+  test('should select only the matching tools with their original schemas', () => {
+    const selected = selectPassthroughTools(tools, { allow: ['get_*', 'search'] });
+
+    expect(selected).toEqual([tools[0], tools[3]]);
+  });
+
+  test('should expose nothing without a tool filter', () => {
+    expect(selectPassthroughTools(tools, undefined)).toEqual([]);
+  });
+});
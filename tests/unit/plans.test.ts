@@ -0,0 +1,42 @@
+/**
+ * Unit tests for plan storage
+ */
+
+import { createPlanStore } from '../../src/plans.js';
+
+describe('Plan Store', () => {
+  const plan = {
+    expert: 'test-expert',
+    query: 'get a',
+    toolCalls: [{ name: 'lookup', arguments: { key: 'a' } }],
+    explanation: 'Look it up.'
+  };
+
+  test('should store plans under unique IDs', () => {
+    const store = createPlanStore();
+
+    const first = store.save(plan);
+    const second = store.save(plan);
+
+    expect(first.id).not.toBe(second.id);
+    expect(store.get(first.id)).toMatchObject(plan);
+  });
+
+  test('should hand out each plan only once', () => {
+    const store = createPlanStore();
+    const stored = store.save(plan);
+
+    expect(store.take(stored.id)).toEqual(stored);
+    expect(store.take(stored.id)).toBeUndefined();
+    expect(store.get(stored.id)).toBeUndefined();
+  });
+
+  test('should expire plans after the TTL', async () => {
+    const store = createPlanStore(10);
+    const stored = store.save(plan);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(store.get(stored.id)).toBeUndefined();
+  });
+});
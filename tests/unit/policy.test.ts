@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the tool safety policy
+ */
+
+import { resolveToolPolicy, isMutatingTool, proposePolicy } from '../../src/policy.js';
+import { READ_RESOURCE_TOOL, GET_PROMPT_TOOL } from '../../src/resources.js';
+
+describe('Tool Policy', () => {
+  test('should allow every tool without a policy', () => {
+    expect(resolveToolPolicy('delete_repo', undefined)).toBe('allow');
+  });
+
+  test('should let deny win over confirm and confirm over allow', () => {
+    const policy = {
+      allow: ['*'],
+      confirm: ['delete_*', 'update_*'],
+      deny: ['delete_repo']
+    };
+
+    expect(resolveToolPolicy('get_repo', policy)).toBe('allow');
+    expect(resolveToolPolicy('update_repo', policy)).toBe('confirm');
+    expect(resolveToolPolicy('delete_branch', policy)).toBe('confirm');
+    expect(resolveToolPolicy('delete_repo', policy)).toBe('deny');
+  });
+
+  test('should fall back to the default action for unlisted tools', () => {
+    expect(resolveToolPolicy('new_tool', { allow: ['get_*'], default: 'confirm' })).toBe('confirm');
+    expect(resolveToolPolicy('new_tool', { allow: ['get_*'] })).toBe('allow');
+  });
+
+  test('should classify tools from their annotations', () => {
+    expect(isMutatingTool({ name: 'delete_file', annotations: { readOnlyHint: true } })).toBe(false);
+    expect(isMutatingTool({ name: 'write_file', annotations: { readOnlyHint: false } })).toBe(true);
+    expect(isMutatingTool({ name: 'append_log', annotations: { readOnlyHint: false, destructiveHint: false } })).toBe(true);
+    expect(isMutatingTool({ name: 'list_files', annotations: { destructiveHint: false } })).toBe(true);
+    expect(isMutatingTool({ name: 'wipe', annotations: { destructiveHint: true } })).toBe(true);
+  });
+
+  test('should fall back to the tool name without annotations', () => {
+    expect(isMutatingTool({ name: 'delete_file' })).toBe(true);
+    expect(isMutatingTool({ name: 'repo.remove' })).toBe(true);
+    expect(isMutatingTool({ name: 'list_files' })).toBe(false);
+    expect(isMutatingTool({ name: 'getUser' })).toBe(false);
+    expect(isMutatingTool({ name: 'repo.search' })).toBe(false);
+  });
+
+  test('should treat unannotated tools without a read-only name as mutating', () => {
+    for (const name of ['write_file', 'create_issue', 'update_record', 'send_email', 'execute_command', 'move_file', 'set_value']) {
+      expect(isMutatingTool({ name })).toBe(true);
+    }
+    expect(isMutatingTool({ name: 'undelete' })).toBe(true);
+    expect(isMutatingTool({ name: 'get_or_create_user' })).toBe(true);
+    expect(isMutatingTool({ name: 'search_and_replace' })).toBe(true);
+  });
+
+  test('should propose allowing read-only tools and confirming mutating ones', () => {
+    const policy = proposePolicy([
+      { name: 'read_file', annotations: { readOnlyHint: true } },
+      { name: 'write_file', annotations: { readOnlyHint: false } },
+      { name: 'search' }
+    ]);
+
+    expect(policy).toEqual({
+      allow: ['read_file', 'search', READ_RESOURCE_TOOL, GET_PROMPT_TOOL],
+      confirm: ['write_file'],
+      default: 'confirm'
+    });
+  });
+
+  test('should propose confirming non-destructive writes', () => {
+    const policy = proposePolicy([
+      { name: 'send_email', annotations: { readOnlyHint: false, destructiveHint: false } },
+      { name: 'append_log', annotations: { destructiveHint: false } }
+    ]);
+
+    expect(policy.allow).toEqual([READ_RESOURCE_TOOL, GET_PROMPT_TOOL]);
+    expect(policy.confirm).toEqual(['send_email', 'append_log']);
+  });
+});
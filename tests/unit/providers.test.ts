@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the LLM provider layer
+ */
+
+import { generateText } from 'ai';
+import {
+  mergeLLMSettings,
+  resolveModelName,
+  resolveTemperature,
+  validateProviderEnvironment,
+  createScriptedModel,
+  createLanguageModel
+} from '../../src/providers.js';
+
+describe('LLM Providers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('Settings Resolution', () => {
+    test('should default to openai', () => {
+      expect(mergeLLMSettings()).toEqual({ provider: 'openai' });
+    });
+
+    test('should let later sources override earlier ones', () => {
+      const settings = mergeLLMSettings(
+        { provider: 'anthropic', model: 'claude-x', temperature: 0.5 },
+        { model: 'claude-y', temperature: undefined }
+      );
+
+      expect(settings).toEqual({ provider: 'anthropic', model: 'claude-y', temperature: 0.5 });
+    });
+
+    test('should resolve default model names', () => {
+      expect(resolveModelName({ provider: 'openai' })).toBe('gpt-4o-mini');
+      expect(resolveModelName({ provider: 'openai', model: 'gpt-4o' })).toBe('gpt-4o');
+    });
+
+    test('should require a model name for openai-compatible', () => {
+      expect(() => resolveModelName({ provider: 'openai-compatible' })).toThrow(
+        'A model name is required for the openai-compatible provider'
+      );
+    });
+
+    test('should default temperature to 0.3', () => {
+      expect(resolveTemperature({ provider: 'openai' })).toBe(0.3);
+      expect(resolveTemperature({ provider: 'openai', temperature: 0 })).toBe(0);
+    });
+  });
+
+  describe('Environment Validation', () => {
+    test('should require OPENAI_API_KEY for openai', () => {
+      delete process.env.OPENAI_API_KEY;
+
+      expect(() => validateProviderEnvironment({ provider: 'openai' })).toThrow(
+        'OPENAI_API_KEY environment variable is required'
+      );
+    });
+
+    test('should require ANTHROPIC_API_KEY for anthropic', () => {
+      delete process.env.ANTHROPIC_API_KEY;
+
+      expect(() => validateProviderEnvironment({ provider: 'anthropic' })).toThrow(
+        'ANTHROPIC_API_KEY environment variable is required'
+      );
+    });
+
+    test('should honor a custom API key variable', () => {
+      delete process.env.LOCAL_LLM_KEY;
+
+      expect(() => validateProviderEnvironment({
+        provider: 'openai-compatible',
+        baseURL: 'http://localhost:11434/v1',
+        apiKeyEnv: 'LOCAL_LLM_KEY'
+      })).toThrow('LOCAL_LLM_KEY environment variable is required');
+    });
+
+    test('should require a base URL for openai-compatible', () => {
+      expect(() => validateProviderEnvironment({ provider: 'openai-compatible' })).toThrow(
+        'A base URL is required for the openai-compatible provider'
+      );
+    });
+
+    test('should not require keys for the scripted provider', () => {
+      delete process.env.OPENAI_API_KEY;
+
+      expect(() => validateProviderEnvironment({ provider: 'scripted' })).not.toThrow();
+    });
+  });
+
+  describe('Scripted Provider', () => {
+    test('should replay responses in order and repeat the last one', async () => {
+      const model = createScriptedModel(['first', 'second']);
+
+      const texts = [];
+      for (let i = 0; i < 3; i++) {
+        const response = await generateText({ model, prompt: 'anything' });
+        texts.push(response.text);
+      }
+
+      expect(texts).toEqual(['first', 'second', 'second']);
+    });
+
+    test('should fail when no responses are configured', async () => {
+      const model = createScriptedModel([]);
+
+      await expect(generateText({ model, prompt: 'anything' })).rejects.toThrow(
+        'Scripted provider has no responses configured'
+      );
+    });
+
+    test('should be selectable through settings', async () => {
+      const model = createLanguageModel({ provider: 'scripted', responses: ['{"ok":true}'] });
+      const response = await generateText({ model, prompt: 'anything' });
+
+      expect(response.text).toBe('{"ok":true}');
+    });
+  });
+});
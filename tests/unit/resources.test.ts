@@ -0,0 +1,68 @@
+/**
+ * Unit tests for resource and prompt access
+ */
+
+import {
+  READ_RESOURCE_TOOL,
+  GET_PROMPT_TOOL,
+  createResourceTools,
+  callWrappedOperation,
+  listWrappedResources
+} from '../../src/resources.js';
+import { validateToolCall } from '../../src/validation.js';
+
+describe('Resources and Prompts', () => {
+  const resources = [{ uri: 'file:///notes.md', name: 'notes', description: 'Meeting notes' }];
+  const templates = [{ uriTemplate: 'file:///logs/{date}', name: 'logs' }];
+  const prompts = [{
+    name: 'summarize',
+    description: 'Summarize a document',
+    arguments: [{ name: 'topic', required: true }, { name: 'style' }]
+  }];
+
+  test('should describe resources and prompts as plan operations', () => {
+    const tools = createResourceTools(resources, templates, prompts);
+
+    expect(tools.map(tool => tool.name)).toEqual([READ_RESOURCE_TOOL, GET_PROMPT_TOOL]);
+    expect(tools[0].description).toContain('file:///notes.md (notes): Meeting notes');
+    expect(tools[0].description).toContain('file:///logs/{date} (logs, template)');
+    expect(tools[1].description).toContain('summarize(topic, style?)');
+  });
+
+  test('should omit operations the server does not offer', () => {
+    expect(createResourceTools([], [], [])).toEqual([]);
+  });
+
+  test('should validate prompt arguments against the operation schema', () => {
+    const tools = createResourceTools([], [], prompts);
+
+    expect(validateToolCall(GET_PROMPT_TOOL, { name: 'summarize', arguments: { topic: 'q3' } }, tools)).toEqual([]);
+    expect(validateToolCall(GET_PROMPT_TOOL, { name: 'translate' }, tools)).toEqual([
+      'name must be one of "summarize"'
+    ]);
+  });
+
+  test('should dispatch operations to the matching client method', async () => {
+    const client = {
+      readResource: jest.fn().mockResolvedValue({ contents: [{ uri: 'file:///notes.md', text: 'hi' }] }),
+      getPrompt: jest.fn().mockResolvedValue({ messages: [{ role: 'user', content: { type: 'text', text: 'go' } }] }),
+      callTool: jest.fn().mockResolvedValue({ content: [], isError: true })
+    };
+
+    await expect(callWrappedOperation(client as any, READ_RESOURCE_TOOL, { uri: 'file:///notes.md' }))
+      .resolves.toEqual({ content: [{ uri: 'file:///notes.md', text: 'hi' }] });
+    await expect(callWrappedOperation(client as any, GET_PROMPT_TOOL, { name: 'summarize', arguments: { topic: 'q3' } }))
+      .resolves.toEqual({ content: [{ role: 'user', content: { type: 'text', text: 'go' } }] });
+    await expect(callWrappedOperation(client as any, 'echo', { message: 'x' }))
+      .resolves.toEqual({ content: [], isError: true });
+
+    expect(client.getPrompt).toHaveBeenCalledWith({ name: 'summarize', arguments: { topic: 'q3' } }, undefined);
+    expect(client.callTool).toHaveBeenCalledWith({ name: 'echo', arguments: { message: 'x' } }, undefined, undefined);
+  });
+
+  test('should treat unsupported listings as empty', async () => {
+    const client = { listResources: jest.fn().mockRejectedValue(new Error('Method not found')) };
+
+    await expect(listWrappedResources(client as any)).resolves.toEqual([]);
+  });
+});
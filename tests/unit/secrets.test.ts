@@ -0,0 +1,70 @@
+/**
+ * Unit tests for secret placeholder resolution
+ */
+
+import {
+  envReference,
+  findLiteralSecrets,
+  resolvePlaceholders,
+  resolveConnectionTarget
+} from '../../src/secrets.js';
+
+describe('Secret Placeholders', () => {
+  const source = {
+    GITHUB_TOKEN: 'ghp_secret',
+    HOME_DIR: '/home/test'
+  };
+
+  test('should build references', () => {
+    expect(envReference('GITHUB_TOKEN')).toBe('${env:GITHUB_TOKEN}');
+  });
+
+  test('should resolve placeholders inside larger values', () => {
+    expect(resolvePlaceholders('Bearer ${env:GITHUB_TOKEN}', source)).toBe('Bearer ghp_secret');
+    expect(resolvePlaceholders('plain value', source)).toBe('plain value');
+  });
+
+  test('should fail on unset variables', () => {
+    expect(() => resolvePlaceholders('${env:MISSING}', source)).toThrow(
+      'Environment variable MISSING is not set (referenced as ${env:MISSING})'
+    );
+  });
+
+  test('should find credentials written out literally', () => {
+    expect(findLiteralSecrets({
+      headers: { Authorization: 'Bearer abc123', 'X-Api-Key': '${env:API_KEY}', Accept: 'application/json' },
+      env: { GITHUB_TOKEN: 'ghp_secret', DB_PASSWORD: '${env:DB_PASSWORD}', MODE: 'test' }
+    })).toEqual(['header Authorization', 'environment variable GITHUB_TOKEN']);
+    expect(findLiteralSecrets({})).toEqual([]);
+  });
+
+  test('should resolve every launch setting of a connection target', () => {
+    const target = {
+      serverPath: 'node',
+      args: ['server.js', '--token=${env:GITHUB_TOKEN}'],
+      headers: { Authorization: 'Bearer ${env:GITHUB_TOKEN}' },
+      env: { GITHUB_TOKEN: '${env:GITHUB_TOKEN}', MODE: 'test' },
+      cwd: '${env:HOME_DIR}/project'
+    };
+
+    expect(resolveConnectionTarget(target, source)).toEqual({
+      serverPath: 'node',
+      args: ['server.js', '--token=ghp_secret'],
+      headers: { Authorization: 'Bearer ghp_secret' },
+      env: { GITHUB_TOKEN: 'ghp_secret', MODE: 'test' },
+      cwd: '/home/test/project'
+    });
+  });
+
+  test('should leave the original target untouched', () => {
+    const target = {
+      serverPath: 'node',
+      args: [],
+      env: { GITHUB_TOKEN: '${env:GITHUB_TOKEN}' }
+    };
+
+    resolveConnectionTarget(target, source);
+
+    expect(target.env.GITHUB_TOKEN).toBe('${env:GITHUB_TOKEN}');
+  });
+});
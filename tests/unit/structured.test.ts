@@ -0,0 +1,73 @@
+/**
+ * Unit tests for structured LLM output parsing
+ */
+
+import { z } from 'zod';
+import { extractJson, generateStructured, formatZodError } from '../../src/structured.js';
+import { createLLMRuntime } from '../../src/providers.js';
+
+describe('Structured Output', () => {
+  describe('JSON Extraction', () => {
+    test('should parse plain JSON', () => {
+      expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    });
+
+    test('should parse JSON inside markdown fences', () => {
+      const text = 'Here is the plan:\n```json\n{"a": 1}\n```\nLet me know!';
+
+      expect(extractJson(text)).toEqual({ a: 1 });
+    });
+
+    test('should parse JSON surrounded by prose', () => {
+      const text = 'Sure! {"a": {"b": "curly } in string"}} Hope that helps.';
+
+      expect(extractJson(text)).toEqual({ a: { b: 'curly } in string' } });
+    });
+
+    test('should fail when there is no JSON', () => {
+      expect(() => extractJson('I cannot help with that.')).toThrow(
+        'No valid JSON found in LLM response'
+      );
+    });
+  });
+
+  describe('Validation Errors', () => {
+    test('should format issues with their paths', () => {
+      const result = z.object({ a: z.object({ b: z.string() }) }).safeParse({ a: { b: 1 } });
+
+      expect(result.success).toBe(false);
+      expect(formatZodError(result.error!)).toBe('a.b: Expected string, received number');
+    });
+  });
+
+  describe('Repair Retries', () => {
+    const schema = z.object({ name: z.string() });
+
+    test('should return the first valid response', async () => {
+      const llm = createLLMRuntime({ provider: 'scripted', responses: ['```json\n{"name": "ok"}\n```'] });
+
+      const result = await generateStructured(llm, 'prompt', schema);
+
+      expect(result.value).toEqual({ name: 'ok' });
+    });
+
+    test('should repair invalid responses', async () => {
+      const llm = createLLMRuntime({
+        provider: 'scripted',
+        responses: ['{"name": 42}', '{"name": "fixed"}']
+      });
+
+      const result = await generateStructured(llm, 'prompt', schema);
+
+      expect(result.value).toEqual({ name: 'fixed' });
+    });
+
+    test('should give up after the maximum number of repairs', async () => {
+      const llm = createLLMRuntime({ provider: 'scripted', responses: ['not json'] });
+
+      await expect(generateStructured(llm, 'prompt', schema, 1)).rejects.toThrow(
+        'LLM response did not match the expected format after 2 attempts: No valid JSON found in LLM response'
+      );
+    });
+  });
+});
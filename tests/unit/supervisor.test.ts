@@ -0,0 +1,129 @@
+/**
+ * Unit tests for wrapped server supervision
+ */
+
+import { createSupervisor } from '../../src/supervisor.js';
+
+describe('Wrapped Server Supervisor', () => {
+  const createFakeClient = () => {
+    const client: any = {
+      onclose: undefined,
+      ping: jest.fn().mockResolvedValue({}),
+      close: jest.fn(async () => {
+        client.onclose?.();
+      })
+    };
+    return client;
+  };
+
+  const settings = {
+    initialBackoffMs: 5,
+    maxBackoffMs: 20,
+    pingIntervalMs: 0,
+    requestTimeoutMs: 200
+  };
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  test('should connect and report health', async () => {
+    const client = createFakeClient();
+    const supervisor = createSupervisor(async () => client, settings);
+
+    await supervisor.start();
+
+    expect(await supervisor.getClient()).toBe(client);
+    expect(supervisor.health()).toMatchObject({ state: 'connected', restarts: 0 });
+    await supervisor.close();
+  });
+
+  test('should fail start when the server cannot be launched', async () => {
+    const supervisor = createSupervisor(async () => {
+      throw new Error('spawn ENOENT');
+    }, settings);
+
+    await expect(supervisor.start()).rejects.toThrow('spawn ENOENT');
+    expect(supervisor.health().state).toBe('failed');
+  });
+
+  test('should restart after the connection closes', async () => {
+    const first = createFakeClient();
+    const second = createFakeClient();
+    const connect = jest.fn()
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce(second);
+    const supervisor = createSupervisor(connect, settings);
+
+    await supervisor.start();
+    first.onclose();
+
+    expect(supervisor.health().state).toBe('reconnecting');
+    // Requests made while reconnecting wait for the new connection
+    expect(await supervisor.getClient()).toBe(second);
+    expect(supervisor.health()).toMatchObject({ state: 'connected', restarts: 1 });
+    await supervisor.close();
+  });
+
+  test('should give up after the maximum number of restarts', async () => {
+    const client = createFakeClient();
+    const connect = jest.fn()
+      .mockResolvedValueOnce(client)
+      .mockRejectedValue(new Error('crashed on startup'));
+    const supervisor = createSupervisor(connect, { ...settings, maxRestarts: 2 });
+
+    await supervisor.start();
+    client.onclose();
+    await waitFor(() => supervisor.health().state === 'failed');
+
+    expect(connect).toHaveBeenCalledTimes(3);
+    await expect(supervisor.getClient()).rejects.toThrow(
+      'Wrapped server is unavailable (failed): crashed on startup'
+    );
+  });
+
+  test('should not restart when restarts are disabled', async () => {
+    const client = createFakeClient();
+    const supervisor = createSupervisor(async () => client, { ...settings, restart: false });
+
+    await supervisor.start();
+    client.onclose();
+
+    expect(supervisor.health().state).toBe('failed');
+    await expect(supervisor.getClient()).rejects.toThrow('Wrapped server is unavailable (failed)');
+  });
+
+  test('should reconnect when a ping fails', async () => {
+    const first = createFakeClient();
+    first.ping.mockRejectedValue(new Error('timed out'));
+    const second = createFakeClient();
+    const connect = jest.fn()
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce(second);
+    const supervisor = createSupervisor(connect, { ...settings, pingIntervalMs: 10 });
+
+    await supervisor.start();
+    await waitFor(() => connect.mock.calls.length === 2 && supervisor.health().state === 'connected');
+
+    expect(first.close).toHaveBeenCalled();
+    expect(await supervisor.getClient()).toBe(second);
+    await supervisor.close();
+  });
+
+  test('should fail waiting requests on close', async () => {
+    const client = createFakeClient();
+    const connect = jest.fn()
+      .mockResolvedValueOnce(client)
+      .mockImplementation(() => new Promise(() => undefined));
+    const supervisor = createSupervisor(connect, settings);
+
+    await supervisor.start();
+    client.onclose();
+    const pending = supervisor.getClient();
+    await supervisor.close();
+
+    await expect(pending).rejects.toThrow('Wrapped server connection is closed');
+  });
+});
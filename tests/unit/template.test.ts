@@ -0,0 +1,51 @@
+/**
+ * Unit tests for template-based analysis
+ */
+
+import { templateAnalysis } from '../../src/template.js';
+import { ServerCapabilities } from '../../src/types.js';
+
+describe('Template Analysis', () => {
+  const capabilities: ServerCapabilities = {
+    tools: [
+      { name: 'read_note', description: 'Read a note', inputSchema: { type: 'object' }, annotations: { readOnlyHint: true } },
+      { name: 'delete_note', description: 'Delete a note', inputSchema: { type: 'object' } }
+    ],
+    resources: [{ uri: 'notes://index', name: 'index', description: 'All notes' }],
+    resourceTemplates: [{ uriTemplate: 'notes://{path}', name: 'note' }],
+    prompts: [{ name: 'summarize', arguments: [{ name: 'path' }] }]
+  };
+
+  test('should name the expert after the server info, then the executable', () => {
+    expect(templateAnalysis(capabilities, 'node', { serverInfo: { name: 'mcp-server-notes', version: '1.0.0' } }).expertName)
+      .toBe('Notes Expert');
+    expect(templateAnalysis(capabilities, 'node', { serverInfo: { name: 'notes', title: 'Note Keeper', version: '1.0.0' } }).expertName)
+      .toBe('Note Keeper Expert');
+    expect(templateAnalysis(capabilities, '/usr/local/bin/github_server.js').expertName).toBe('Github Expert');
+  });
+
+  test('should describe every capability in the system prompt', () => {
+    const analysis = templateAnalysis(capabilities, 'notes-server', { instructions: 'Notes are markdown files.' });
+
+    expect(analysis.expertDescription).toBe(
+      'Works with the Notes MCP server, which offers 2 tools (read_note, delete_note), 2 resources, 1 prompt.'
+    );
+    expect(analysis.systemPrompt).toContain('Server instructions:\nNotes are markdown files.');
+    expect(analysis.systemPrompt).toContain('- read_note (read-only): Read a note');
+    expect(analysis.systemPrompt).toContain('- delete_note (may modify data): Delete a note');
+    expect(analysis.systemPrompt).toContain('- notes://{path} (note)');
+    expect(analysis.systemPrompt).toContain('- summarize (arguments: path)');
+    expect(analysis.capabilities).toEqual({ tools: ['read_note', 'delete_note'], resources: ['notes://index'], prompts: ['summarize'] });
+  });
+
+  test('should be deterministic', () => {
+    expect(templateAnalysis(capabilities, 'notes-server')).toEqual(templateAnalysis(capabilities, 'notes-server'));
+  });
+
+  test('should handle a server with no capabilities', () => {
+    const analysis = templateAnalysis({ tools: [], resources: [], resourceTemplates: [], prompts: [] }, 'empty');
+
+    expect(analysis.expertDescription).toBe('Works with the Empty MCP server.');
+    expect(analysis.systemPrompt).not.toContain('Tools:');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for exposing the wrapper over HTTP
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_HTTP_HOST, serveOverHttp } from '../../src/transports.js';
+
+describe('HTTP Transport', () => {
+  const servers: Server[] = [];
+  const createServer = jest.fn(() => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    servers.push(server);
+    return server;
+  });
+
+  let httpServer: http.Server;
+  let port: number;
+  let url: string;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  beforeEach(async () => {
+    createServer.mockClear();
+    httpServer = await serveOverHttp(createServer, { port: 0 });
+    port = (httpServer.address() as AddressInfo).port;
+    url = `http://${DEFAULT_HTTP_HOST}:${port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(servers.splice(0).map(server => server.close()));
+    await new Promise<void>(resolve => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  });
+
+  test('should only listen on the loopback interface by default', () => {
+    expect((httpServer.address() as AddressInfo).address).toBe('127.0.0.1');
+  });
+
+  test('should refuse requests for a foreign host or from a foreign origin', async () => {
+    // fetch does not let the Host header be overridden
+    const status = (headers: http.OutgoingHttpHeaders) => new Promise<number>((resolve, reject) => {
+      http.request({ host: DEFAULT_HTTP_HOST, port, path: '/sse', headers }, response => {
+        response.resume();
+        resolve(response.statusCode!);
+      }).on('error', reject).end();
+    });
+
+    expect(await status({ Host: `attacker.example:${port}` })).toBe(403);
+    expect(await status({ Host: `localhost:${port}`, Origin: 'http://attacker.example' })).toBe(403);
+
+    const initialized = await post({ jsonrpc: '2.0', id: 1, method: 'initialize' }, { Origin: 'http://attacker.example' });
+    await initialized.text();
+    expect(initialized.status).toBe(403);
+
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  test('should reject requests without a session before creating a server', async () => {
+    for (let i = 0; i < 3; i++) {
+      const response = await post({ jsonrpc: '2.0', id: i, method: 'tools/list' });
+      expect(response.status).toBe(400);
+      await response.text();
+    }
+
+    const malformed = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+    expect(malformed.status).toBe(400);
+    await malformed.text();
+
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  test('should close the server when an initialize request is rejected', async () => {
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'client', version: '1.0.0' } }
+    }, { Accept: 'application/json' });
+    await response.text();
+
+    expect(response.status).toBe(406);
+    expect(createServer).toHaveBeenCalledTimes(1);
+    expect(servers[0].transport).toBeUndefined();
+  });
+
+  test('should start a session on initialize and reuse its server', async () => {
+    const initialized = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'client', version: '1.0.0' } }
+    });
+    const sessionId = initialized.headers.get('mcp-session-id');
+    await initialized.text();
+
+    expect(initialized.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+
+    const notified = await post(
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { 'mcp-session-id': sessionId!, 'mcp-protocol-version': LATEST_PROTOCOL_VERSION }
+    );
+    await notified.text();
+
+    expect(notified.status).toBe(202);
+    expect(createServer).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for tool argument validation
+ */
+
+import { validateAgainstSchema, validateToolCall, validateDependencies } from '../../src/validation.js';
+
+describe('Tool Argument Validation', () => {
+  const tools = [
+    {
+      name: 'create_event',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          duration: { type: 'integer' },
+          visibility: { type: 'string', enum: ['public', 'private'] },
+          attendees: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['title']
+      }
+    },
+    { name: 'ping' }
+  ];
+
+  test('should accept valid arguments', () => {
+    expect(validateToolCall('create_event', {
+      title: 'Standup',
+      duration: 15,
+      visibility: 'private',
+      attendees: ['a@example.com']
+    }, tools)).toEqual([]);
+  });
+
+  test('should report missing required fields', () => {
+    expect(validateToolCall('create_event', {}, tools)).toEqual(['title is required']);
+  });
+
+  test('should report type mismatches', () => {
+    expect(validateToolCall('create_event', {
+      title: 'Standup',
+      duration: 1.5,
+      attendees: ['a@example.com', 3]
+    }, tools)).toEqual([
+      'duration must be integer, got number',
+      'attendees[1] must be string, got integer'
+    ]);
+  });
+
+  test('should report values outside an enum', () => {
+    expect(validateToolCall('create_event', { title: 'x', visibility: 'secret' }, tools)).toEqual([
+      'visibility must be one of "public", "private"'
+    ]);
+  });
+
+  test('should reject unknown tools', () => {
+    expect(validateToolCall('drop_database', {}, tools)).toEqual([
+      'Unknown tool: drop_database. Available tools: create_event, ping'
+    ]);
+  });
+
+  test('should accept any arguments for tools without a schema', () => {
+    expect(validateToolCall('ping', { anything: true }, tools)).toEqual([]);
+  });
+
+  test('should reject additional properties when disallowed', () => {
+    const schema = { type: 'object', properties: {}, additionalProperties: false };
+
+    expect(validateAgainstSchema({ extra: 1 }, schema)).toEqual(['extra is not an allowed property']);
+  });
+
+  test('should accept dependencies between calls in a step', () => {
+    expect(validateDependencies([
+      { id: 'a' },
+      { id: 'b', dependsOn: ['a'] },
+      { dependsOn: ['a', 'b'] }
+    ])).toEqual([]);
+  });
+
+  test('should report unknown, duplicate and circular dependencies', () => {
+    expect(validateDependencies([{ id: 'a', dependsOn: ['missing'] }])).toEqual([
+      { index: 0, message: 'Unknown dependency: missing. Dependencies must be ids of calls in the same step' }
+    ]);
+    expect(validateDependencies([{ id: 'a' }, { id: 'a' }])).toEqual([
+      { index: 1, message: 'Duplicate call id: a' }
+    ]);
+    expect(validateDependencies([
+      { id: 'a', dependsOn: ['b'] },
+      { id: 'b', dependsOn: ['a'] }
+    ])).toEqual([{ index: 1, message: 'Circular dependency on a' }]);
+  });
+});
@@ -2,8 +2,14 @@
  * Unit tests for the MCP wrapper server
  */
 
-import { loadConfig, createExpertTool, connectToWrappedServer } from '../../src/wrapper.js';
+import {
+  loadConfig,
+  createExpertTool,
+  connectToWrappedServer,
+  resolveConfigPaths
+} from '../../src/wrapper.js';
 import { WrapperConfig } from '../../src/types.js';
+import { CURRENT_SCHEMA_VERSION } from '../../src/migrations.js';
 import * as fs from 'fs/promises';
 
 // Mock dependencies
@@ -19,14 +25,16 @@ const mockFs = fs as jest.Mocked<typeof fs>;
 
 describe('MCP Wrapper', () => {
   const validConfig: WrapperConfig = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     name: 'Test Expert',
     description: 'A test expert for unit testing',
     serverPath: '/path/to/server',
     args: ['--test'],
     systemPrompt: 'You are a test expert.',
     capabilities: {
-      tools: [{ name: 'test-tool', description: 'A test tool' }],
+      tools: [{ name: 'test-tool', description: 'A test tool', inputSchema: { type: 'object' } }],
       resources: [],
+      resourceTemplates: [],
       prompts: []
     },
     metadata: {
@@ -51,6 +59,24 @@ describe('MCP Wrapper', () => {
       expect(mockFs.readFile).toHaveBeenCalledWith('/test/config.json', 'utf-8');
     });
 
+    test('should upgrade configurations without a schema version', async () => {
+      const { schemaVersion, ...legacyConfig } = validConfig;
+      mockFs.readFile.mockResolvedValue(JSON.stringify(legacyConfig));
+
+      await expect(loadConfig('/test/legacy.json')).resolves.toEqual(validConfig);
+    });
+
+    test('should validate capabilities against the MCP schemas', async () => {
+      mockFs.readFile.mockResolvedValue(JSON.stringify({
+        ...validConfig,
+        capabilities: { ...validConfig.capabilities, resources: [{ name: 'notes' }] }
+      }));
+
+      await expect(loadConfig('/test/config.json')).rejects.toThrow(
+        'Failed to load configuration: capabilities.resources.0.uri: Required'
+      );
+    });
+
     test('should handle file not found', async () => {
       mockFs.readFile.mockRejectedValue(new Error('ENOENT: no such file or directory'));
 
@@ -90,6 +116,28 @@ describe('MCP Wrapper', () => {
     });
   });
 
+  describe('Configuration Paths', () => {
+    test('should keep file paths and expand directories', async () => {
+      mockFs.stat.mockImplementation(async (p) => ({
+        isDirectory: () => p === '/configs'
+      }) as any);
+      mockFs.readdir.mockResolvedValue(['b.json', 'notes.txt', 'a.json'] as any);
+
+      const result = await resolveConfigPaths(['/single.json', '/configs']);
+
+      expect(result).toEqual(['/single.json', '/configs/a.json', '/configs/b.json']);
+    });
+
+    test('should reject directories without configurations', async () => {
+      mockFs.stat.mockResolvedValue({ isDirectory: () => true } as any);
+      mockFs.readdir.mockResolvedValue([] as any);
+
+      await expect(resolveConfigPaths(['/empty'])).rejects.toThrow(
+        'No configuration files found in /empty'
+      );
+    });
+  });
+
   describe('Expert Tool Creation', () => {
     test('should create expert tool with correct structure', () => {
       const tool = createExpertTool(validConfig);
@@ -106,8 +154,21 @@ describe('MCP Wrapper', () => {
             },
             mode: {
               type: 'string',
-              enum: ['discover', 'execute', 'explain'],
+              enum: ['discover', 'plan', 'execute', 'explain', 'status'],
               description: 'Operation mode'
+            },
+            planId: {
+              type: 'string',
+              description: 'ID of a plan returned by plan mode, to execute it as approved'
+            },
+            verbosity: {
+              type: 'string',
+              enum: ['answer', 'citations', 'full'],
+              description: 'Detail level of execute results: the answer only, the answer with the tools called, or full raw results'
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Allow tools that the policy marks as requiring confirmation'
             }
           },
           required: ['query']
@@ -197,6 +258,7 @@ describe('MCP Wrapper', () => {
         capabilities: {
           tools: [],
           resources: [],
+          resourceTemplates: [],
           prompts: []
         }
       };